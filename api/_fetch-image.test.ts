@@ -0,0 +1,135 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { fetchImage, GET, isBlockedAddress } from "./fetch-image";
+
+// The leading underscore keeps Vercel from deploying this file as a function
+
+function fetchRequest(imageUrl: string, headers: Record<string, string> = {}) {
+  const url = new URL("http://localhost/api/fetch-image");
+  url.searchParams.set("url", imageUrl);
+  return new Request(url, { headers });
+}
+
+async function errorOf(response: Response) {
+  return { code: response.status, ...(await response.json()).error };
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("isBlockedAddress", () => {
+  it.each([
+    "0.0.0.0",
+    "10.1.2.3",
+    "100.64.0.1",
+    "127.0.0.1",
+    "169.254.169.254",
+    "172.16.0.1",
+    "172.31.255.255",
+    "192.168.1.1",
+    "198.18.0.1",
+    "224.0.0.1",
+    "255.255.255.255",
+    "::",
+    "::1",
+    "::ffff:127.0.0.1",
+    "::ffff:10.0.0.1",
+    "64:ff9b::a00:1",
+    "2002:7f00:1::",
+    "fc00::1",
+    "fd12:3456::1",
+    "fe80::1",
+    "ff02::1",
+  ])("blocks %s", (address) => {
+    expect(isBlockedAddress(address)).toBe(true);
+  });
+
+  it.each(["8.8.8.8", "1.1.1.1", "172.32.0.1", "2606:4700:4700::1111", "2a00:1450:4001::200e"])(
+    "allows %s",
+    (address) => {
+      expect(isBlockedAddress(address)).toBe(false);
+    }
+  );
+
+  it("blocks anything that is not an IP address", () => {
+    expect(isBlockedAddress("localhost")).toBe(true);
+    expect(isBlockedAddress("")).toBe(true);
+  });
+});
+
+describe("fetchImage", () => {
+  it.each([
+    "http://127.0.0.1/a.png",
+    "http://0x7f.1/a.png",
+    "http://2130706433/a.png",
+    "http://[::1]/a.png",
+    "http://[::ffff:7f00:1]/a.png",
+    "http://169.254.169.254/latest/meta-data",
+  ])("refuses the address literal in %s", async (url) => {
+    expect(await errorOf(await fetchImage(fetchRequest(url)))).toMatchObject({
+      code: 403,
+      status: "PERMISSION_DENIED",
+    });
+  });
+
+  it("refuses hosts that resolve to a private address", async () => {
+    const error = await errorOf(await fetchImage(fetchRequest("http://localhost:1/a.png")));
+    expect(error).toMatchObject({ code: 403, status: "PERMISSION_DENIED" });
+    expect(error.message).toMatch(/^localhost apunta a /);
+  });
+
+  it("refuses schemes other than http(s)", async () => {
+    expect(await errorOf(await fetchImage(fetchRequest("file:///etc/passwd")))).toMatchObject({
+      code: 403,
+      message: "Solo se admiten URL http(s).",
+    });
+  });
+
+  it("refuses hosts outside IMAGE_FETCH_ALLOWED_HOSTS", async () => {
+    vi.stubEnv("IMAGE_FETCH_ALLOWED_HOSTS", "*.example.com, images.test");
+    expect(
+      await errorOf(await fetchImage(fetchRequest("https://example.com.evil.test/a.png")))
+    ).toMatchObject({ code: 403, message: "El host example.com.evil.test no está permitido." });
+  });
+
+  it("rejects URLs that do not parse", async () => {
+    expect(await errorOf(await fetchImage(fetchRequest("no es una url")))).toMatchObject({
+      code: 400,
+      status: "INVALID_ARGUMENT",
+    });
+  });
+});
+
+describe("GET", () => {
+  it("serves nobody without PROXY_TOKEN or PROXY_TRUSTED_ORIGINS", async () => {
+    vi.stubEnv("PROXY_TOKEN", "");
+    vi.stubEnv("PROXY_TRUSTED_ORIGINS", "");
+    expect((await GET(fetchRequest("http://127.0.0.1/a.png"))).status).toBe(500);
+  });
+
+  it("asks for the token before looking at the URL", async () => {
+    vi.stubEnv("PROXY_TOKEN", "s3cret-token");
+    const request = fetchRequest("http://127.0.0.1/a.png", { Authorization: "Bearer wrong" });
+    expect(await errorOf(await GET(request))).toMatchObject({
+      code: 401,
+      status: "UNAUTHENTICATED",
+    });
+  });
+
+  it("checks the URL once the caller is authenticated", async () => {
+    vi.stubEnv("PROXY_TOKEN", "s3cret-token");
+    const request = fetchRequest("http://127.0.0.1/a.png", {
+      Authorization: "Bearer s3cret-token",
+    });
+    expect((await GET(request)).status).toBe(403);
+  });
+
+  it("lets trusted origins in without the token", async () => {
+    vi.stubEnv("PROXY_TOKEN", "s3cret-token");
+    vi.stubEnv("PROXY_TRUSTED_ORIGINS", "https://images.example.com/");
+    const request = fetchRequest("http://127.0.0.1/a.png", {
+      Origin: "https://images.example.com",
+    });
+    expect((await GET(request)).status).toBe(403);
+  });
+});
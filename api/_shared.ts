@@ -0,0 +1,71 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+
+// Helpers for the serverless functions. The leading underscore keeps Vercel
+// from exposing this file as a route.
+//
+// Every function spends the deployment's key or bandwidth, so callers must
+// prove they are allowed to. Without either setting below, requests are
+// refused rather than served to anyone who finds the URL.
+//
+//   PROXY_TOKEN             shared secret, sent as "Authorization: Bearer <token>"
+//                           (an endpoint profile of type proxy with Bearer auth)
+//   PROXY_TRUSTED_ORIGINS   comma-separated origins, e.g. https://images.example.com,
+//                           whose pages may call the functions without the token
+//
+// The origin check only keeps other websites out: a script outside a browser
+// can send any Origin header. Deployments reachable from the internet should
+// set PROXY_TOKEN.
+
+export function errorResponse(code: number, status: string, message: string) {
+  return Response.json({ error: { code, status, message } }, { status: code });
+}
+
+/** Compares digests so the comparison takes the same time whatever the lengths. */
+function sameSecret(a: string, b: string) {
+  const digest = (s: string) => createHash("sha256").update(s).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+function trustedOrigins() {
+  return (process.env.PROXY_TRUSTED_ORIGINS ?? "")
+    .split(",")
+    .map((o) => o.trim().replace(/\/+$/, ""))
+    .filter(Boolean);
+}
+
+// Browsers leave Origin out of same-origin GETs, but not the Referer
+function requestOrigin(request: Request) {
+  const origin = request.headers.get("origin");
+  if (origin) return origin;
+  try {
+    return new URL(request.headers.get("referer") ?? "").origin;
+  } catch {
+    return null;
+  }
+}
+
+/** An error response when the caller is not allowed, or null when it is. */
+export function rejectUnauthorized(request: Request): Response | null {
+  const token = process.env.PROXY_TOKEN;
+  const origins = trustedOrigins();
+  if (!token && origins.length === 0) {
+    return errorResponse(
+      500,
+      "INTERNAL",
+      "El proxy no tiene configurado PROXY_TOKEN ni PROXY_TRUSTED_ORIGINS: no atiende a nadie."
+    );
+  }
+
+  const [scheme, credentials] = (request.headers.get("authorization") ?? "").trim().split(/\s+/, 2);
+  if (token && scheme.toLowerCase() === "bearer" && credentials && sameSecret(credentials, token)) {
+    return null;
+  }
+  const origin = requestOrigin(request);
+  if (origin && origins.includes(origin)) return null;
+
+  return errorResponse(
+    401,
+    "UNAUTHENTICATED",
+    token ? "Token del proxy ausente o no válido." : "Origen no autorizado para usar el proxy."
+  );
+}
@@ -0,0 +1,250 @@
+import { lookup, type LookupAddress, type LookupOptions } from "node:dns";
+import { get as httpGet, type IncomingMessage } from "node:http";
+import { get as httpsGet } from "node:https";
+import { BlockList, isIP } from "node:net";
+import { errorResponse, rejectUnauthorized } from "./_shared.js";
+
+// Fetches a remote image for the browser, which cannot read most CMS and CDN
+// assets itself because they send no CORS headers.
+//
+//   GET /api/fetch-image?url=https://cdn.example.com/asset.jpg
+//
+// Callers are checked like /api/generate's (PROXY_TOKEN or a trusted origin).
+// Only http(s) URLs are fetched, and never from a private, loopback,
+// link-local or otherwise reserved address: the check runs on the addresses
+// the host actually resolves to, inside the connection's own lookup, so a DNS
+// answer cannot change between the check and the connection. Redirects are
+// followed by hand so every hop goes through the same checks. Errors use the
+// Google error shape, like /api/generate.
+//
+// Environment:
+//   IMAGE_FETCH_ALLOWED_HOSTS   optional comma-separated allowlist; "*.example.com" covers subdomains
+//   IMAGE_FETCH_MAX_BYTES       default 4 MB (Vercel rejects responses above 4.5 MB anyway)
+//   PROXY_TOKEN, PROXY_TRUSTED_ORIGINS   who may call it; one is required (see _shared.ts)
+
+const DEFAULT_MAX_BYTES = 4 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+const TIMEOUT_MS = 20_000;
+
+// Special-purpose ranges (RFC 6890 and successors): nothing a public image
+// lives on. One list per family: a BlockList also matches IPv4 addresses
+// against IPv4-mapped IPv6 rules, and ::ffff:0:0/96 would then block them all.
+const BLOCKED_IPV4 = new BlockList();
+const BLOCKED_IPV6 = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.88.99.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_IPV4.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  // Unspecified, loopback and the deprecated IPv4-compatible addresses
+  ["::", 96],
+  // IPv4-mapped: real hosts never resolve to these, so none is let through
+  ["::ffff:0:0", 96],
+  // NAT64 and 6to4 embed IPv4 addresses that may be private
+  ["64:ff9b::", 96],
+  ["64:ff9b:1::", 48],
+  ["2002::", 16],
+  ["100::", 64],
+  ["2001::", 23],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["fec0::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_IPV6.addSubnet(network, prefix, "ipv6");
+}
+
+/** The host resolved, or was given as, an address the function must not reach. */
+class BlockedAddressError extends Error {
+  constructor(host: string, address: string) {
+    super(
+      host === address
+        ? `La dirección ${address} es local o privada.`
+        : `${host} apunta a ${address}, una dirección local o privada.`
+    );
+    this.name = "BlockedAddressError";
+  }
+}
+
+/** Whether the function refuses to connect to `address`; anything but an IP is refused. */
+export function isBlockedAddress(address: string) {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return family === 4 ? BLOCKED_IPV4.check(address, "ipv4") : BLOCKED_IPV6.check(address, "ipv6");
+}
+
+/**
+ * dns.lookup for the connection, failing when any address of the host is
+ * blocked. Node skips the lookup for IP literals; those are checked earlier.
+ */
+function guardedLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (
+    error: NodeJS.ErrnoException | null,
+    address: string | LookupAddress[],
+    family?: number
+  ) => void
+) {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+    const blocked = addresses.find((a) => isBlockedAddress(a.address));
+    if (blocked) {
+      callback(new BlockedAddressError(hostname, blocked.address), []);
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+function maxBytes() {
+  const configured = Number(process.env.IMAGE_FETCH_MAX_BYTES);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MAX_BYTES;
+}
+
+function allowedHosts() {
+  return (process.env.IMAGE_FETCH_ALLOWED_HOSTS ?? "")
+    .split(",")
+    .map((h) => h.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/** Why `url` may not be fetched before resolving it, or null when it may. */
+function refusal(url: URL) {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return "Solo se admiten URL http(s).";
+  }
+  const host = url.hostname.toLowerCase();
+  const allowed = allowedHosts();
+  if (
+    allowed.length > 0 &&
+    !allowed.some((pattern) =>
+      pattern.startsWith("*.") ? host.endsWith(pattern.slice(1)) : host === pattern
+    )
+  ) {
+    return `El host ${host} no está permitido.`;
+  }
+  // IP literals are connected to directly, without a lookup to guard
+  const literal = host.replace(/^\[|\]$/g, "");
+  if (isIP(literal) && isBlockedAddress(literal)) {
+    return new BlockedAddressError(literal, literal).message;
+  }
+  return null;
+}
+
+function download(url: URL, signal: AbortSignal) {
+  return new Promise<IncomingMessage>((resolve, reject) => {
+    const get = url.protocol === "https:" ? httpsGet : httpGet;
+    const request = get(
+      url,
+      { headers: { Accept: "image/*" }, lookup: guardedLookup, signal, timeout: TIMEOUT_MS },
+      resolve
+    );
+    request.on("timeout", () => request.destroy(new Error("Tiempo de espera agotado")));
+    request.on("error", reject);
+  });
+}
+
+export async function GET(request: Request): Promise<Response> {
+  return rejectUnauthorized(request) ?? fetchImage(request);
+}
+
+/**
+ * The fetcher itself, without the caller check: server/gemini-proxy.ts
+ * authenticates its own accounts before handing requests over.
+ */
+export async function fetchImage(request: Request): Promise<Response> {
+  const raw = new URL(request.url).searchParams.get("url") ?? "";
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return errorResponse(400, "INVALID_ARGUMENT", `URL no válida: "${raw}".`);
+  }
+
+  let upstream: IncomingMessage | undefined;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const refused = refusal(url);
+    if (refused) return errorResponse(403, "PERMISSION_DENIED", refused);
+    try {
+      upstream = await download(url, request.signal);
+    } catch (e) {
+      return e instanceof BlockedAddressError
+        ? errorResponse(403, "PERMISSION_DENIED", e.message)
+        : errorResponse(502, "UNAVAILABLE", `No se pudo conectar con ${url.host}.`);
+    }
+    const status = upstream.statusCode ?? 0;
+    const location = upstream.headers.location;
+    if (status < 300 || status >= 400 || !location) break;
+    upstream.resume();
+    url = new URL(location, url);
+    upstream = undefined;
+  }
+  if (!upstream) return errorResponse(502, "UNAVAILABLE", "Demasiadas redirecciones.");
+  const response = upstream;
+  const status = response.statusCode ?? 0;
+  if (status < 200 || status >= 300) {
+    response.resume();
+    return errorResponse(
+      502,
+      "UNAVAILABLE",
+      `El servidor de la imagen respondió ${status} ${response.statusMessage ?? ""}`.trim()
+    );
+  }
+
+  const contentType = response.headers["content-type"] ?? "";
+  const limit = maxBytes();
+  const refuse = (error: Response) => {
+    response.destroy();
+    return error;
+  };
+  if (!contentType.toLowerCase().startsWith("image/")) {
+    return refuse(
+      errorResponse(
+        415,
+        "INVALID_ARGUMENT",
+        `La URL no devuelve una imagen (${contentType || "tipo desconocido"}).`
+      )
+    );
+  }
+  const tooLarge = () =>
+    refuse(errorResponse(413, "INVALID_ARGUMENT", `La imagen supera el límite de ${limit} bytes.`));
+  if (Number(response.headers["content-length"]) > limit) return tooLarge();
+
+  // Read with a cap: content-length may be missing or wrong
+  const chunks: Buffer[] = [];
+  let size = 0;
+  try {
+    for await (const chunk of response) {
+      size += (chunk as Buffer).byteLength;
+      if (size > limit) return tooLarge();
+      chunks.push(chunk as Buffer);
+    }
+  } catch {
+    return errorResponse(502, "UNAVAILABLE", `La descarga desde ${url.host} se interrumpió.`);
+  }
+  return new Response(Buffer.concat(chunks), {
+    headers: { "Content-Type": contentType, "Cache-Control": "no-store" },
+  });
+}
@@ -0,0 +1,142 @@
+import { z } from "zod";
+import { errorResponse, rejectUnauthorized } from "./_shared.js";
+
+// Serverless proxy for generateContent: the Gemini key lives in the deployment's
+// environment and never reaches the browser.
+//
+//   POST /api/generate?model=gemini-2.5-flash-image[&stream=sse]
+//   body: a generateContent request ({ contents, generationConfig?, ... })
+//
+// The upstream response (JSON, or SSE when streaming) is passed through as is.
+// Errors raised here use the Google error shape so the client explains them
+// the same way as upstream ones.
+//
+// Environment:
+//   GEMINI_API_KEY          required
+//   GEMINI_BASE_URL         default https://generativelanguage.googleapis.com/v1beta
+//   GEMINI_ALLOWED_MODELS   optional comma-separated allowlist
+//   PROXY_MAX_BODY_BYTES    default 4 MB (Vercel rejects bodies above 4.5 MB anyway)
+//   PROXY_TOKEN, PROXY_TRUSTED_ORIGINS   who may call it; one is required (see _shared.ts)
+//
+// This file only imports packages and api/_shared, so it does not depend on how
+// the platform resolves the app's extensionless imports under src/.
+
+const DEFAULT_BASE_URL = "https://generativelanguage.googleapis.com/v1beta";
+const DEFAULT_MAX_BODY_BYTES = 4 * 1024 * 1024;
+const MODEL_PATTERN = /^[a-z0-9][a-z0-9.-]*$/;
+
+const partSchema = z.union([
+  z.object({ text: z.string() }).passthrough(),
+  z.object({ inlineData: z.object({ mimeType: z.string(), data: z.string() }) }).passthrough(),
+  z.object({ inline_data: z.object({ mime_type: z.string(), data: z.string() }) }).passthrough(),
+  z.object({ fileData: z.object({ fileUri: z.string() }).passthrough() }).passthrough(),
+  z.object({ file_data: z.object({ file_uri: z.string() }).passthrough() }).passthrough(),
+]);
+
+const contentSchema = z.object({
+  role: z.enum(["user", "model"]).optional(),
+  parts: z.array(partSchema).min(1),
+});
+
+// Unknown top-level fields (tools, cachedContent...) are rejected: the proxy
+// only serves image generation.
+const proxyRequestSchema = z
+  .object({
+    contents: z.array(contentSchema).min(1),
+    generationConfig: z.record(z.unknown()).optional(),
+    safetySettings: z.array(z.object({ category: z.string(), threshold: z.string() })).optional(),
+    systemInstruction: contentSchema.optional(),
+  })
+  .strict();
+
+/** Largest request body accepted, in bytes. */
+export function maxBodyBytes() {
+  const configured = Number(process.env.PROXY_MAX_BODY_BYTES);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MAX_BODY_BYTES;
+}
+
+function allowedModels() {
+  return (process.env.GEMINI_ALLOWED_MODELS ?? "")
+    .split(",")
+    .map((m) => m.trim())
+    .filter(Boolean);
+}
+
+/** Worded like Google's own 413 so the client explains it the same way. */
+export function payloadTooLargeMessage(limit: number) {
+  return `Request payload size exceeds the limit: ${limit} bytes (proxy).`;
+}
+
+export async function POST(request: Request): Promise<Response> {
+  return rejectUnauthorized(request) ?? handleGenerate(request);
+}
+
+/**
+ * The proxy itself, without the caller check: server/gemini-proxy.ts
+ * authenticates its own accounts before handing requests over.
+ */
+export async function handleGenerate(request: Request): Promise<Response> {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    return errorResponse(500, "INTERNAL", "El proxy no tiene configurada GEMINI_API_KEY.");
+  }
+
+  const url = new URL(request.url);
+  const model = url.searchParams.get("model") ?? "";
+  if (!MODEL_PATTERN.test(model)) {
+    return errorResponse(400, "INVALID_ARGUMENT", `Modelo no válido: "${model}".`);
+  }
+  const allowed = allowedModels();
+  if (allowed.length > 0 && !allowed.includes(model)) {
+    return errorResponse(403, "PERMISSION_DENIED", `El modelo ${model} no está permitido.`);
+  }
+  const stream = url.searchParams.get("stream") === "sse";
+
+  const limit = maxBodyBytes();
+  const tooLarge = () => errorResponse(413, "INVALID_ARGUMENT", payloadTooLargeMessage(limit));
+  if (Number(request.headers.get("content-length")) > limit) return tooLarge();
+  const body = await request.text();
+  if (new TextEncoder().encode(body).byteLength > limit) return tooLarge();
+
+  let json: unknown;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    return errorResponse(400, "INVALID_ARGUMENT", "El cuerpo de la petición no es JSON válido.");
+  }
+  const parsed = proxyRequestSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return errorResponse(
+      400,
+      "INVALID_ARGUMENT",
+      `Petición no válida en ${issue?.path.join(".") || "(raíz)"}: ${issue?.message}`
+    );
+  }
+
+  const baseUrl = (process.env.GEMINI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, "");
+  const upstreamUrl = stream
+    ? `${baseUrl}/models/${model}:streamGenerateContent?alt=sse`
+    : `${baseUrl}/models/${model}:generateContent`;
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(upstreamUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "x-goog-api-key": apiKey },
+      body: JSON.stringify(parsed.data),
+      // Stop generating (and billing) when the browser cancels
+      signal: request.signal,
+    });
+  } catch {
+    return errorResponse(502, "UNAVAILABLE", "El proxy no pudo conectar con la API de Gemini.");
+  }
+
+  const headers = new Headers({
+    "Content-Type": upstream.headers.get("content-type") ?? "application/json",
+    "Cache-Control": "no-store",
+  });
+  const retryAfter = upstream.headers.get("retry-after");
+  if (retryAfter) headers.set("Retry-After", retryAfter);
+  return new Response(upstream.body, { status: upstream.status, headers });
+}
@@ -0,0 +1,436 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { basename, dirname, extname, join, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { z } from "zod";
+import { DEFAULT_MODEL } from "../src/lib/gemini/client";
+import {
+  DEFAULT_ENDPOINT,
+  PROXY_ENDPOINT,
+  type EndpointProfile,
+} from "../src/lib/gemini/endpoints";
+import {
+  explainApiError,
+  GeminiApiError,
+  GeminiResponseError,
+  HttpStatusError,
+  isAbortError,
+} from "../src/lib/gemini/errors";
+import {
+  DEFAULT_GENERATION_SETTINGS,
+  generationSettingsSchema,
+  toGenerationConfig,
+  type GenerationSettings,
+} from "../src/lib/gemini/generation-config";
+import { ensureUploaded, filesApiInputs, supportsFilesApi } from "../src/lib/gemini/files";
+import { DEFAULT_RETRY_OPTIONS } from "../src/lib/gemini/retry";
+import {
+  BUILT_IN_SAFETY_PROFILES,
+  DEFAULT_SAFETY_PROFILE,
+  toSafetySettings,
+} from "../src/lib/gemini/safety";
+import {
+  generationMetadata,
+  runGeneration,
+  validateJob,
+  type GenerationJob,
+} from "../src/lib/generation";
+import { extensionForMime, resolveImageMime, sniffImageMime } from "../src/lib/image";
+import {
+  DEFAULT_EXTERNAL_PROVIDER_SETTINGS,
+  EXTERNAL_PROVIDER_SCHEMAS,
+  IMAGE_PROVIDERS,
+  type ExternalProviderSettings,
+} from "../src/lib/providers/registry";
+import type { InputImage } from "../src/lib/providers/types";
+
+// Scripted generation with the same request building, retries and response
+// handling as the web app. Every image is written with a sidecar JSON holding
+// the prompt, the texts that came with it and the generation metadata.
+//
+//   pnpm generate --prompt "a nano banana dish" --input photo.jpg --count 3
+//   pnpm generate --prompts prompts.jsonl --out renders/
+//
+// Keys come from --api-key or GEMINI_API_KEY / OPENAI_API_KEY / SD_API_KEY.
+// A proxy gets its own credential (--proxy-token or PROXY_TOKEN), never the
+// Gemini key, which the proxy holds itself.
+
+const USAGE = `Uso: pnpm generate [opciones]
+
+  -p, --prompt <texto>       prompt a generar
+      --prompts <fichero>    un prompt por línea (.txt, # comenta) o JSONL con
+                             {"prompt", "inputs"?, "model"?, "count"?, "name"?}
+  -i, --input <imagen>       imagen de entrada; se puede repetir
+  -m, --model <modelo>       por defecto ${DEFAULT_MODEL} (o el del proveedor)
+  -o, --out <carpeta>        por defecto ./generated
+  -n, --count <n>            peticiones por prompt (por defecto 1)
+      --provider <id>        gemini | openai | stable-diffusion (por defecto gemini)
+      --api-key <key>        en lugar de la variable de entorno
+      --base-url <url>       API compatible o servidor del proveedor
+      --proxy <url>          despliegue con /api/generate
+      --proxy-token <token>  credencial del proxy en lugar de PROXY_TOKEN; usuario:contraseña
+                             para cuentas con contraseña
+      --settings <json>      ajustes de generación (Gemini) o del proveedor, como JSON
+                             o @fichero con el JSON
+      --safety <perfil>      ${BUILT_IN_SAFETY_PROFILES.map((p) => `"${p.name}"`).join(", ")}
+      --retries <n>          reintentos ante errores transitorios (por defecto ${DEFAULT_RETRY_OPTIONS.maxRetries})
+      --timeout <s>          tiempo límite por petición, 1 o más (por defecto 120)
+  -h, --help`;
+
+const CLI_PROVIDERS = ["gemini", "openai", "stable-diffusion"] as const;
+type CliProvider = (typeof CLI_PROVIDERS)[number];
+
+const API_KEY_VARIABLES: Record<CliProvider, string> = {
+  gemini: "GEMINI_API_KEY",
+  openai: "OPENAI_API_KEY",
+  "stable-diffusion": "SD_API_KEY",
+};
+
+const promptLineSchema = z.object({
+  prompt: z.string().min(1),
+  inputs: z.array(z.string()).optional(),
+  model: z.string().min(1).optional(),
+  count: z.number().int().min(1).optional(),
+  /** File name prefix for this prompt's outputs. */
+  name: z.string().min(1).optional(),
+});
+
+type PromptSpec = z.infer<typeof promptLineSchema>;
+
+class CliError extends Error {}
+
+function integerOption(value: string | undefined, option: string, fallback: number, min = 1) {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min) {
+    throw new CliError(
+      min === 1
+        ? `${option} debe ser un entero positivo`
+        : `${option} debe ser un entero mayor o igual que ${min}`
+    );
+  }
+  return n;
+}
+
+/** --settings: inline JSON, or @file to read it from a file. */
+async function readSettings(value: string): Promise<unknown> {
+  const file = value.startsWith("@") ? value.slice(1) : null;
+  let text = value;
+  if (file) {
+    try {
+      text = await readFile(file, "utf8");
+    } catch (e) {
+      throw new CliError(`No se pudo leer ${file}: ${(e as Error).message}`);
+    }
+  }
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    throw new CliError(
+      `--settings no es JSON válido (${file ?? "en línea"}): ${(e as Error).message}`
+    );
+  }
+}
+
+async function readPrompts(file: string): Promise<PromptSpec[]> {
+  const lines = (await readFile(file, "utf8")).split(/\r?\n/);
+  if (extname(file).toLowerCase() !== ".jsonl") {
+    return lines
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith("#"))
+      .map((prompt) => ({ prompt }));
+  }
+  const specs: PromptSpec[] = [];
+  // Inputs listed in the file are relative to it, not to the working directory
+  const base = dirname(file);
+  lines.forEach((line, i) => {
+    if (!line.trim()) return;
+    let json: unknown;
+    try {
+      json = JSON.parse(line);
+    } catch {
+      throw new CliError(`${file}:${i + 1}: la línea no es JSON válido`);
+    }
+    const parsed = promptLineSchema.safeParse(json);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new CliError(
+        `${file}:${i + 1}: ${issue?.path.join(".") || "(línea)"}: ${issue?.message}`
+      );
+    }
+    const spec = parsed.data as PromptSpec;
+    specs.push({ ...spec, inputs: spec.inputs?.map((input) => resolve(base, input)) });
+  });
+  return specs;
+}
+
+async function readInputImage(file: string): Promise<InputImage> {
+  let bytes: Uint8Array;
+  try {
+    bytes = new Uint8Array(await readFile(file));
+  } catch (e) {
+    throw new CliError(`No se pudo leer ${file}: ${(e as Error).message}`);
+  }
+  const mimeType = sniffImageMime(bytes);
+  if (!mimeType) throw new CliError(`${file} no es una imagen reconocible`);
+  return { mimeType, data: Buffer.from(bytes).toString("base64") };
+}
+
+function slugify(text: string) {
+  return (
+    text
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 40)
+      .replace(/-+$/, "") || "image"
+  );
+}
+
+/** Same wording as the web app's error toasts. */
+function describeError(e: unknown, providerLabel: string) {
+  if (e instanceof GeminiApiError) {
+    const { title, guidance } = explainApiError(e);
+    return `${title}. ${guidance}`;
+  }
+  if (e instanceof HttpStatusError) return `${providerLabel} respondió ${e.status}: ${e.message}`;
+  if (e instanceof GeminiResponseError) return `${e.message}\n${e.body.slice(0, 500)}`;
+  if (e instanceof Error) return e.message;
+  return String(e);
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      prompt: { type: "string", short: "p" },
+      prompts: { type: "string" },
+      input: { type: "string", short: "i", multiple: true },
+      model: { type: "string", short: "m" },
+      out: { type: "string", short: "o", default: "generated" },
+      count: { type: "string", short: "n" },
+      provider: { type: "string", default: "gemini" },
+      "api-key": { type: "string" },
+      "base-url": { type: "string" },
+      proxy: { type: "string" },
+      "proxy-token": { type: "string" },
+      settings: { type: "string" },
+      safety: { type: "string" },
+      retries: { type: "string" },
+      timeout: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const providerId = values.provider as CliProvider;
+  if (!CLI_PROVIDERS.includes(providerId)) {
+    throw new CliError(`Proveedor no disponible en la CLI: ${values.provider}`);
+  }
+  const provider = IMAGE_PROVIDERS[providerId];
+  const apiKey = values["api-key"] ?? process.env[API_KEY_VARIABLES[providerId]] ?? "";
+  if (providerId === "gemini" && !apiKey && !values.proxy) {
+    throw new CliError(`Falta la API key: usa --api-key o ${API_KEY_VARIABLES.gemini}`);
+  }
+  const count = integerOption(values.count, "--count", 1);
+  const maxRetries = integerOption(
+    values.retries,
+    "--retries",
+    DEFAULT_RETRY_OPTIONS.maxRetries,
+    0
+  );
+  const timeoutMs = integerOption(values.timeout, "--timeout", 120) * 1000;
+  const settingsJson = values.settings ? await readSettings(values.settings) : {};
+
+  const specs: PromptSpec[] = [];
+  if (values.prompt) specs.push({ prompt: values.prompt });
+  if (values.prompts) specs.push(...(await readPrompts(values.prompts)));
+  if (specs.length === 0) throw new CliError(`Falta --prompt o --prompts\n\n${USAGE}`);
+
+  const sharedInputs = values.input ?? [];
+  const inputCache = new Map<string, InputImage>();
+  const loadInputs = async (files: string[]) => {
+    const images: InputImage[] = [];
+    for (const file of files) {
+      if (!inputCache.has(file)) inputCache.set(file, await readInputImage(file));
+      images.push(inputCache.get(file)!);
+    }
+    return images;
+  };
+
+  const controller = new AbortController();
+  process.on("SIGINT", () => controller.abort());
+
+  // Builds the job for one prompt exactly as the web app would for these settings
+  let makeJob: (spec: PromptSpec, images: InputImage[]) => GenerationJob;
+  let prepareImages = async (images: InputImage[]) => images;
+  if (providerId === "gemini") {
+    const settings = generationSettingsSchema.safeParse({
+      ...DEFAULT_GENERATION_SETTINGS,
+      ...(settingsJson as object),
+    });
+    if (!settings.success) {
+      throw new CliError(`Ajustes de generación no válidos: ${settings.error.issues[0]?.message}`);
+    }
+    const safety = values.safety
+      ? BUILT_IN_SAFETY_PROFILES.find((p) => p.name === values.safety)
+      : DEFAULT_SAFETY_PROFILE;
+    if (!safety) throw new CliError(`Perfil de seguridad desconocido: ${values.safety}`);
+    let endpoint: EndpointProfile = DEFAULT_ENDPOINT;
+    let credential = apiKey;
+    if (values.proxy) {
+      credential = values["proxy-token"] ?? process.env.PROXY_TOKEN ?? "";
+      endpoint = {
+        ...PROXY_ENDPOINT,
+        baseUrl: values.proxy,
+        // Tokens never contain ":"; accounts of server/gemini-proxy.ts log in as id:password
+        auth: !credential ? "none" : credential.includes(":") ? "basic" : "bearer",
+      };
+    } else if (values["base-url"]) {
+      endpoint = { ...DEFAULT_ENDPOINT, name: values["base-url"], baseUrl: values["base-url"] };
+    }
+    const generationConfig = toGenerationConfig(settings.data as GenerationSettings);
+    if (supportsFilesApi(endpoint)) {
+      // Large inputs go through the Files API, as in the web app; uploads are
+      // only reused within this run since there is no localStorage here
+      const uploads = new Map<string, string>();
+      prepareImages = (images) => {
+        const sizes = images.map((image) => Buffer.from(image.data, "base64").byteLength);
+        const toUpload = filesApiInputs(sizes);
+        return Promise.all(
+          images.map(async (image, i) => {
+            if (!toUpload.has(i)) return image;
+            const bytes = Buffer.from(image.data, "base64");
+            if (!uploads.has(image.data)) {
+              console.log(
+                `Subiendo ${(bytes.byteLength / 1024 / 1024).toFixed(1)} MB a la Files API...`
+              );
+              const { file } = await ensureUploaded(bytes, image.mimeType, "cli-input", {
+                apiKey,
+                endpoint,
+                signal: controller.signal,
+              });
+              uploads.set(image.data, file.uri);
+            }
+            return { ...image, fileUri: uploads.get(image.data) };
+          })
+        );
+      };
+    }
+    makeJob = (spec, images) => ({
+      providerId,
+      prompt: spec.prompt,
+      images,
+      apiKey: credential,
+      model: spec.model ?? values.model ?? DEFAULT_MODEL,
+      settings: { endpoint, generationConfig, safetySettings: toSafetySettings(safety.thresholds) },
+      safetyProfile: safety.name,
+    });
+  } else {
+    const base: ExternalProviderSettings[typeof providerId] = {
+      ...DEFAULT_EXTERNAL_PROVIDER_SETTINGS[providerId],
+      ...(settingsJson as object),
+      ...(values["base-url"] ? { baseUrl: values["base-url"] } : {}),
+    };
+    const parsed = EXTERNAL_PROVIDER_SCHEMAS[providerId].safeParse(base);
+    if (!parsed.success) {
+      throw new CliError(
+        `Ajustes de ${provider.label} no válidos: ${parsed.error.issues[0]?.message}`
+      );
+    }
+    makeJob = (spec, images) =>
+      ({
+        providerId,
+        prompt: spec.prompt,
+        images,
+        apiKey,
+        settings: { ...base, model: spec.model ?? values.model ?? base.model },
+      }) as GenerationJob;
+  }
+
+  await mkdir(values.out, { recursive: true });
+
+  let written = 0;
+  let failures = 0;
+  for (const [p, spec] of specs.entries()) {
+    const inputFiles = [...sharedInputs, ...(spec.inputs ?? [])];
+    const inputs = await loadInputs(inputFiles);
+    const invalid = validateJob(makeJob(spec, inputs));
+    if (invalid) throw new CliError(`Prompt ${p + 1}: ${invalid}`);
+    const job = makeJob(spec, await prepareImages(inputs));
+    const prefix = spec.name ?? `${String(p + 1).padStart(3, "0")}-${slugify(spec.prompt)}`;
+
+    const runs = spec.count ?? count;
+    for (let run = 1; run <= runs; run++) {
+      const label = `[${p + 1}/${specs.length}${runs > 1 ? ` #${run}` : ""}]`;
+      const createdAt = new Date();
+      try {
+        const { result, entries, blocked } = await runGeneration(job, {
+          maxRetries,
+          timeoutMs,
+          signal: controller.signal,
+          onRetry: ({ attempt, maxAttempts, delayMs, error }) =>
+            console.error(
+              `${label} ${describeError(error, provider.label)} Intento ${attempt}/${maxAttempts} en ${Math.ceil(delayMs / 1000)} s...`
+            ),
+        });
+        const metadata = generationMetadata(job, result, createdAt);
+        if (!entries.some((entry) => entry.image)) failures++;
+
+        for (const [k, entry] of entries.entries()) {
+          const name = `${prefix}-${run}-${k + 1}`;
+          let imageFile: string | null = null;
+          if (entry.image) {
+            const bytes = Buffer.from(entry.image.data, "base64");
+            imageFile = `${name}.${extensionForMime(resolveImageMime(bytes, entry.image.mimeType))}`;
+            await writeFile(join(values.out, imageFile), bytes);
+            written++;
+            console.log(`${label} ${join(values.out, imageFile)}`);
+          }
+          const sidecar = {
+            prompt: spec.prompt,
+            inputs: inputFiles.map((file) => basename(file)),
+            image: imageFile,
+            candidateIndex: entry.candidateIndex,
+            finishReason: entry.finishReason,
+            texts: entry.texts,
+            blocked: imageFile ? undefined : blocked,
+            usage: result.usage,
+            metadata,
+          };
+          await writeFile(join(values.out, `${name}.json`), JSON.stringify(sidecar, null, 2));
+        }
+        // Candidates cut short or filtered next to the ones that did produce images
+        if (entries.length > 0) for (const reason of blocked) console.error(`${label} ${reason}`);
+        if (entries.length === 0) {
+          await writeFile(
+            join(values.out, `${prefix}-${run}.json`),
+            JSON.stringify({ prompt: spec.prompt, blocked, raw: result.raw, metadata }, null, 2)
+          );
+          console.error(`${label} ${blocked.join(" ") || "La respuesta no contiene imágenes."}`);
+        }
+      } catch (e) {
+        if (isAbortError(e)) {
+          console.error("Cancelado.");
+          return 130;
+        }
+        failures++;
+        console.error(`${label} ${describeError(e, provider.label)}`);
+      }
+    }
+  }
+
+  console.log(`${written} imágenes en ${values.out}${failures ? `, ${failures} fallos` : ""}`);
+  return failures > 0 ? 1 : 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (e) => {
+    console.error(e instanceof CliError ? e.message : e);
+    process.exit(2);
+  }
+);
@@ -0,0 +1,107 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  accountLimits,
+  authenticate,
+  generateToken,
+  hashPassword,
+  loadAccounts,
+  type AccountsFile,
+} from "./accounts";
+
+const defaults = { requestsPerMinute: 10, imagesPerDay: 100 };
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "accounts-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function usersFile(contents: unknown) {
+  const file = join(dir, "users.json");
+  writeFileSync(file, JSON.stringify(contents));
+  return file;
+}
+
+function basic(credentials: string) {
+  return `Basic ${Buffer.from(credentials).toString("base64")}`;
+}
+
+describe("loadAccounts", () => {
+  it("refuses the example file until its placeholders are filled in", () => {
+    expect(() => loadAccounts(join(__dirname, "proxy-users.example.json"))).toThrow(
+      /users\.0\.token: Sustituye el marcador por el resultado de `pnpm proxy generate-token`/
+    );
+  });
+
+  it("explains how to fill in a password hash placeholder", () => {
+    const file = usersFile({
+      defaults,
+      users: [{ id: "luis", passwordHash: "REPLACE: pnpm proxy hash-password <contraseña>" }],
+    });
+    expect(() => loadAccounts(file)).toThrow(/`pnpm proxy hash-password <contraseña>`/);
+  });
+
+  it("requires a token or a password hash", () => {
+    const file = usersFile({ defaults, users: [{ id: "ana" }] });
+    expect(() => loadAccounts(file)).toThrow(/Cada usuario necesita token o passwordHash/);
+  });
+
+  it("refuses repeated ids", () => {
+    const token = generateToken();
+    const file = usersFile({
+      defaults,
+      users: [
+        { id: "ana", token },
+        { id: "ana", token },
+      ],
+    });
+    expect(() => loadAccounts(file)).toThrow(/el usuario "ana" está repetido/);
+  });
+
+  it("loads filled-in accounts", () => {
+    const file = usersFile({
+      defaults,
+      users: [{ id: "ana", token: generateToken(), imagesPerDay: 20 }],
+    });
+    const accounts = loadAccounts(file);
+    expect(accountLimits(accounts.users[0], accounts.defaults)).toEqual({
+      requestsPerMinute: 10,
+      imagesPerDay: 20,
+    });
+  });
+});
+
+describe("authenticate", () => {
+  const token = generateToken();
+  const accounts: AccountsFile = {
+    defaults,
+    users: [
+      { id: "ana", token },
+      { id: "luis", passwordHash: hashPassword("contraseña") },
+    ],
+  };
+
+  it("finds the account behind a bearer token", () => {
+    expect(authenticate(`Bearer ${token}`, accounts)?.id).toBe("ana");
+    expect(authenticate(`Bearer ${token}x`, accounts)).toBeNull();
+  });
+
+  it("checks basic credentials against the password hash", () => {
+    expect(authenticate(basic("luis:contraseña"), accounts)?.id).toBe("luis");
+    expect(authenticate(basic("luis:otra"), accounts)).toBeNull();
+    expect(authenticate(basic(`ana:${token}`), accounts)).toBeNull();
+  });
+
+  it("rejects missing or unknown schemes", () => {
+    expect(authenticate(undefined, accounts)).toBeNull();
+    expect(authenticate("Bearer", accounts)).toBeNull();
+    expect(authenticate(`Token ${token}`, accounts)).toBeNull();
+  });
+});
@@ -0,0 +1,123 @@
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import type { QuotaLimits } from "./quota";
+
+// Callers are identified with either a shared-secret token
+// (Authorization: Bearer <token>, made with `pnpm proxy generate-token`) or a
+// basic account (Authorization: Basic base64(id:password)) whose password is
+// stored as a scrypt hash made with `pnpm proxy hash-password <password>`.
+
+// The example users file marks the values to fill in like this, so a copy of
+// it is refused instead of running with credentials published in the repo
+const PLACEHOLDER_PREFIX = "REPLACE";
+
+/** `schema`, checked only once the value is no longer the placeholder `command` fills in. */
+function filledIn(command: string, schema: z.ZodString) {
+  return z
+    .string()
+    .refine(
+      (value) => !value.startsWith(PLACEHOLDER_PREFIX),
+      `Sustituye el marcador por el resultado de \`${command}\``
+    )
+    .pipe(schema);
+}
+
+const limitsSchema = z.object({
+  requestsPerMinute: z.number().int().min(1),
+  imagesPerDay: z.number().int().min(0),
+});
+
+const accountSchema = z
+  .object({
+    id: z.string().regex(/^[^:\s]+$/, "El id no puede contener espacios ni ':'"),
+    token: filledIn(
+      "pnpm proxy generate-token",
+      z.string().min(16, "Usa tokens de al menos 16 caracteres")
+    ).optional(),
+    passwordHash: filledIn(
+      "pnpm proxy hash-password <contraseña>",
+      z.string().regex(/^scrypt\$[0-9a-f]+\$[0-9a-f]+$/, "Formato esperado: scrypt$<sal>$<hash>")
+    ).optional(),
+  })
+  .merge(limitsSchema.partial())
+  .refine((a) => a.token || a.passwordHash, "Cada usuario necesita token o passwordHash");
+
+export const accountsFileSchema = z.object({
+  defaults: limitsSchema,
+  users: z.array(accountSchema).min(1),
+});
+
+export type Account = z.infer<typeof accountSchema>;
+export type AccountsFile = z.infer<typeof accountsFileSchema>;
+
+export function loadAccounts(file: string): AccountsFile {
+  const parsed = accountsFileSchema.safeParse(JSON.parse(readFileSync(file, "utf8")));
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`${file}: ${issue?.path.join(".") || "(raíz)"}: ${issue?.message}`);
+  }
+  const ids = new Set<string>();
+  for (const user of parsed.data.users) {
+    if (ids.has(user.id)) throw new Error(`${file}: el usuario "${user.id}" está repetido`);
+    ids.add(user.id);
+  }
+  return parsed.data;
+}
+
+export function accountLimits(account: Account, defaults: QuotaLimits): QuotaLimits {
+  return {
+    requestsPerMinute: account.requestsPerMinute ?? defaults.requestsPerMinute,
+    imagesPerDay: account.imagesPerDay ?? defaults.imagesPerDay,
+  };
+}
+
+/** A random bearer token for the users file. */
+export function generateToken() {
+  return randomBytes(32).toString("base64url");
+}
+
+export function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  return `scrypt$${salt.toString("hex")}$${scryptSync(password, salt, 32).toString("hex")}`;
+}
+
+function verifyPassword(password: string, stored: string) {
+  const [, salt, hash] = stored.split("$");
+  const expected = Buffer.from(hash, "hex");
+  const actual = scryptSync(password, Buffer.from(salt, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/** Compares digests so the comparison takes the same time whatever the lengths. */
+function sameSecret(a: string, b: string) {
+  const digest = (s: string) => createHash("sha256").update(s).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+/** The account behind an Authorization header, or null when it matches none. */
+export function authenticate(header: string | undefined, accounts: AccountsFile): Account | null {
+  const [scheme, credentials] = (header ?? "").trim().split(/\s+/, 2);
+  if (!credentials) return null;
+
+  if (scheme.toLowerCase() === "bearer") {
+    let match: Account | null = null;
+    // No early exit: every token is compared so timing does not reveal which one matched
+    for (const account of accounts.users) {
+      if (account.token && sameSecret(credentials, account.token)) match = account;
+    }
+    return match;
+  }
+
+  if (scheme.toLowerCase() === "basic") {
+    const decoded = Buffer.from(credentials, "base64").toString("utf8");
+    const separator = decoded.indexOf(":");
+    if (separator < 0) return null;
+    const id = decoded.slice(0, separator);
+    const account = accounts.users.find((a) => a.id === id);
+    if (!account?.passwordHash) return null;
+    return verifyPassword(decoded.slice(separator + 1), account.passwordHash) ? account : null;
+  }
+
+  return null;
+}
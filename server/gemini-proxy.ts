@@ -0,0 +1,286 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { fetchImage } from "../api/fetch-image";
+import { handleGenerate, maxBodyBytes, payloadTooLargeMessage } from "../api/generate";
+import { accountLimits, authenticate, generateToken, hashPassword, loadAccounts } from "./accounts";
+import { createQuotaStore, type QuotaStatus } from "./quota";
+
+// Self-hosted variant of /api/generate for a team sharing one billing key:
+// every caller authenticates, and each one has its own requests-per-minute
+// and daily image limits so one person's batch cannot drain the key for the
+// rest. Requests that pass are handed to the same handler as the serverless
+// function (minus its PROXY_TOKEN check, replaced by the accounts here), so
+// validation and upstream behaviour are identical.
+//
+//   pnpm proxy                            start the server
+//   pnpm proxy generate-token             print a token for the users file
+//   pnpm proxy hash-password <password>   print a passwordHash for the users file
+//
+// In the app, add an endpoint profile of type "proxy" pointing at this server,
+// with "Authorization: Bearer" (token) or "Authorization: Basic" (id:password).
+//
+// Environment (besides GEMINI_API_KEY and the rest of api/generate.ts):
+//   PORT                  default 8787
+//   PROXY_USERS_FILE      default proxy-users.json; see server/proxy-users.example.json
+//   PROXY_USAGE_FILE      default proxy-usage.json; daily image counts survive restarts
+//   PROXY_ALLOWED_ORIGIN  default *; the app's origin when it is served elsewhere
+//
+// Images are charged per request as generationConfig.candidateCount (1 by
+// default) and refunded when the upstream call fails. GET /api/fetch-image
+// (see api/fetch-image.ts) needs the same credentials but is not charged.
+
+const QUOTA_ERROR_DOMAIN = "gemini-proxy";
+
+function errorBody(code: number, status: string, message: string, details?: object[]) {
+  return JSON.stringify({ error: { code, status, message, details } });
+}
+
+function quotaHeaders(status: QuotaStatus): Record<string, string> {
+  return {
+    "X-Quota-Limit": String(status.quotaLimit),
+    "X-Quota-Remaining": String(status.remaining),
+    "X-Quota-Reset": status.resetsAt,
+  };
+}
+
+/**
+ * A Google-shaped 429. The per-minute limit carries a RetryInfo so clients
+ * retry on their own; the daily one a QuotaFailure, which they should not
+ * retry. Both carry an ErrorInfo with the caller's quota status.
+ */
+function quotaExceededBody(user: string, status: QuotaStatus, retryAfterMs: number) {
+  const perMinute = status.limit === "requestsPerMinute";
+  const message = perMinute
+    ? `Límite de ${status.quotaLimit} peticiones por minuto alcanzado para ${user}.`
+    : `Cuota diaria de ${status.quotaLimit} imágenes insuficiente para ${user}: quedan ${status.remaining}.`;
+  const details: object[] = [
+    {
+      "@type": "type.googleapis.com/google.rpc.ErrorInfo",
+      reason: perMinute ? "PROXY_RATE_LIMITED" : "PROXY_DAILY_QUOTA_EXCEEDED",
+      domain: QUOTA_ERROR_DOMAIN,
+      metadata: {
+        user,
+        limit: status.limit,
+        quotaLimit: String(status.quotaLimit),
+        remaining: String(status.remaining),
+        resetsAt: status.resetsAt,
+      },
+    },
+    perMinute
+      ? {
+          "@type": "type.googleapis.com/google.rpc.RetryInfo",
+          retryDelay: `${Math.ceil(retryAfterMs / 1000)}s`,
+        }
+      : {
+          "@type": "type.googleapis.com/google.rpc.QuotaFailure",
+          violations: [{ subject: `user:${user}`, description: message }],
+        },
+  ];
+  return errorBody(429, "RESOURCE_EXHAUSTED", message, details);
+}
+
+/** Images the request asks for; malformed bodies are left for the handler to reject. */
+function requestedImages(body: string) {
+  try {
+    const count = JSON.parse(body)?.generationConfig?.candidateCount;
+    return Number.isInteger(count) && count > 0 ? count : 1;
+  } catch {
+    return 1;
+  }
+}
+
+/** The request body passed `limit` bytes; the proxy answers 413 without reading the rest. */
+class BodyTooLargeError extends Error {
+  constructor(limit: number) {
+    super(payloadTooLargeMessage(limit));
+    this.name = "BodyTooLargeError";
+  }
+}
+
+/**
+ * Buffers the body, failing as soon as it passes `limit` bytes so a caller
+ * cannot make the proxy hold more than that in memory.
+ */
+function readBody(req: IncomingMessage, limit: number) {
+  return new Promise<string>((resolve, reject) => {
+    if (Number(req.headers["content-length"]) > limit) {
+      reject(new BodyTooLargeError(limit));
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.byteLength;
+      if (size > limit) {
+        req.off("data", onData);
+        req.pause();
+        reject(new BodyTooLargeError(limit));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on("data", onData);
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+    // Settled already unless the client went away mid-upload
+    req.on("close", () => reject(new Error("aborted")));
+  });
+}
+
+function toWebRequest(req: IncomingMessage, body: string, signal: AbortSignal) {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (typeof value === "string") headers.set(name, value);
+  }
+  return new Request(`http://${req.headers.host ?? "localhost"}${req.url ?? "/"}`, {
+    method: "POST",
+    headers,
+    body,
+    signal,
+  });
+}
+
+async function sendWebResponse(
+  res: ServerResponse,
+  response: Response,
+  extraHeaders: Record<string, string>
+) {
+  res.writeHead(response.status, { ...Object.fromEntries(response.headers), ...extraHeaders });
+  if (response.body) {
+    // Written chunk by chunk so SSE reaches the browser as it arrives
+    for await (const chunk of response.body) res.write(chunk);
+  }
+  res.end();
+}
+
+function main() {
+  const accountsFile = process.env.PROXY_USERS_FILE || "proxy-users.json";
+  const accounts = loadAccounts(accountsFile);
+  const quotas = createQuotaStore(process.env.PROXY_USAGE_FILE || "proxy-usage.json");
+  const allowedOrigin = process.env.PROXY_ALLOWED_ORIGIN || "*";
+  const port = Number(process.env.PORT) || 8787;
+
+  const server = createServer(async (req, res) => {
+    const cors: Record<string, string> = {
+      "Access-Control-Allow-Origin": allowedOrigin,
+      "Access-Control-Expose-Headers":
+        "Retry-After, X-Quota-Limit, X-Quota-Remaining, X-Quota-Reset",
+      Vary: "Origin",
+    };
+    const send = (code: number, body: string, headers: Record<string, string> = {}) => {
+      res.writeHead(code, { "Content-Type": "application/json", ...cors, ...headers });
+      res.end(body);
+    };
+
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, {
+        ...cors,
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+        "Access-Control-Allow-Headers":
+          req.headers["access-control-request-headers"] ?? "Authorization, Content-Type",
+        "Access-Control-Max-Age": "600",
+      });
+      res.end();
+      return;
+    }
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+    const route = `${req.method} ${path}`;
+    if (route !== "POST /api/generate" && route !== "GET /api/fetch-image") {
+      send(404, errorBody(404, "NOT_FOUND", `No existe ${route}.`));
+      return;
+    }
+
+    const account = authenticate(req.headers.authorization, accounts);
+    if (!account) {
+      send(401, errorBody(401, "UNAUTHENTICATED", "Credenciales del proxy no válidas."));
+      return;
+    }
+
+    if (route === "GET /api/fetch-image") {
+      const controller = new AbortController();
+      res.on("close", () => {
+        if (!res.writableFinished) controller.abort();
+      });
+      const url = `http://${req.headers.host ?? "localhost"}${req.url ?? "/"}`;
+      try {
+        const response = await fetchImage(new Request(url, { signal: controller.signal }));
+        console.log(`${account.id} ${response.status} ${route}`);
+        await sendWebResponse(res, response, cors);
+      } catch (e) {
+        if (res.headersSent) {
+          res.destroy();
+        } else {
+          send(502, errorBody(502, "UNAVAILABLE", "El proxy falló al reenviar la imagen."));
+        }
+        if (!controller.signal.aborted) console.error("Proxy error:", e);
+      }
+      return;
+    }
+
+    // Stop the upstream call when the browser goes away mid-generation
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    const limits = accountLimits(account, accounts.defaults);
+    // Nothing is charged until the whole body has arrived
+    let body: string | undefined;
+    let charged = 0;
+    let chargedAt = 0;
+    try {
+      body = await readBody(req, maxBodyBytes());
+      const images = requestedImages(body);
+      chargedAt = Date.now();
+      const decision = quotas.charge(account.id, limits, images, chargedAt);
+      if (!decision.allowed) {
+        send(429, quotaExceededBody(account.id, decision.status, decision.retryAfterMs), {
+          ...quotaHeaders(quotas.status(account.id, limits)),
+          "Retry-After": String(Math.ceil(decision.retryAfterMs / 1000)),
+        });
+        return;
+      }
+      charged = images;
+
+      const response = await handleGenerate(toWebRequest(req, body, controller.signal));
+      if (!response.ok) {
+        quotas.refund(account.id, charged, chargedAt);
+        charged = 0;
+      }
+      const status = quotas.status(account.id, limits);
+      console.log(`${account.id} ${response.status} (${status.remaining} imágenes restantes)`);
+      await sendWebResponse(res, response, { ...cors, ...quotaHeaders(status) });
+    } catch (e) {
+      if (e instanceof BodyTooLargeError) {
+        // Closing the connection drops whatever the client is still uploading
+        send(413, errorBody(413, "INVALID_ARGUMENT", e.message), { Connection: "close" });
+        return;
+      }
+      if (body === undefined || res.headersSent) {
+        // The upload broke off, or the response is already under way
+        res.destroy();
+      } else {
+        if (charged > 0) quotas.refund(account.id, charged, chargedAt);
+        send(502, errorBody(502, "UNAVAILABLE", "El proxy falló al reenviar la petición."));
+      }
+      if (!controller.signal.aborted) console.error("Proxy error:", e);
+    }
+  });
+
+  server.listen(port, () => {
+    console.log(`Proxy de Gemini en http://localhost:${port}/api/generate`);
+    console.log(`${accounts.users.length} usuarios cargados de ${accountsFile}`);
+  });
+}
+
+if (process.argv[2] === "generate-token") {
+  console.log(generateToken());
+} else if (process.argv[2] === "hash-password") {
+  const password = process.argv[3];
+  if (!password) {
+    console.error("Uso: pnpm proxy hash-password <contraseña>");
+    process.exit(1);
+  }
+  console.log(hashPassword(password));
+} else {
+  main();
+}
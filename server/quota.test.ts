@@ -0,0 +1,99 @@
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createQuotaStore } from "./quota";
+
+const limits = { requestsPerMinute: 2, imagesPerDay: 5 };
+const noon = Date.parse("2026-03-10T12:00:00Z");
+
+let dir: string;
+let file: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "quota-"));
+  file = join(dir, "usage.json");
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("createQuotaStore", () => {
+  it("allows requestsPerMinute requests in any sliding minute", () => {
+    const quotas = createQuotaStore(file);
+    expect(quotas.charge("ana", limits, 1, noon).allowed).toBe(true);
+    expect(quotas.charge("ana", limits, 1, noon + 20_000).allowed).toBe(true);
+
+    const refused = quotas.charge("ana", limits, 1, noon + 30_000);
+    expect(refused).toMatchObject({
+      allowed: false,
+      retryAfterMs: 30_000,
+      status: { limit: "requestsPerMinute", remaining: 0, resetsAt: "2026-03-10T12:01:00.000Z" },
+    });
+
+    // The first request leaves the window, the second one is still in it
+    expect(quotas.charge("ana", limits, 1, noon + 60_000).allowed).toBe(true);
+    expect(quotas.charge("ana", limits, 1, noon + 61_000).allowed).toBe(false);
+  });
+
+  it("does not count refused requests against the window or the day", () => {
+    const quotas = createQuotaStore(file);
+    expect(quotas.charge("ana", limits, 6, noon).allowed).toBe(false);
+    expect(quotas.charge("ana", limits, 5, noon).allowed).toBe(true);
+    expect(quotas.status("ana", limits, noon).remaining).toBe(0);
+  });
+
+  it("keeps users apart", () => {
+    const quotas = createQuotaStore(file);
+    quotas.charge("ana", limits, 5, noon);
+    expect(quotas.charge("luis", limits, 5, noon).allowed).toBe(true);
+  });
+
+  it("refuses images beyond the daily limit until UTC midnight", () => {
+    const quotas = createQuotaStore(file);
+    expect(quotas.charge("ana", limits, 4, noon).allowed).toBe(true);
+
+    const refused = quotas.charge("ana", limits, 2, noon + 120_000);
+    expect(refused).toMatchObject({
+      allowed: false,
+      retryAfterMs: 12 * 3600_000 - 120_000,
+      status: { limit: "imagesPerDay", remaining: 1, resetsAt: "2026-03-11T00:00:00.000Z" },
+    });
+
+    const nextDay = Date.parse("2026-03-11T00:00:01Z");
+    expect(quotas.charge("ana", limits, 5, nextDay).allowed).toBe(true);
+    expect(quotas.status("ana", limits, nextDay).remaining).toBe(0);
+  });
+
+  it("gives refunded images back, never below zero", () => {
+    const quotas = createQuotaStore(file);
+    quotas.charge("ana", limits, 3, noon);
+    quotas.refund("ana", 2, noon);
+    expect(quotas.status("ana", limits, noon).remaining).toBe(4);
+    quotas.refund("ana", 10, noon);
+    expect(quotas.status("ana", limits, noon).remaining).toBe(5);
+  });
+
+  it("ignores refunds for a charge made on a previous day", () => {
+    const quotas = createQuotaStore(file);
+    const lateNight = Date.parse("2026-03-10T23:59:59Z");
+    quotas.charge("ana", limits, 3, lateNight);
+    const nextDay = Date.parse("2026-03-11T00:00:01Z");
+    quotas.charge("ana", limits, 2, nextDay);
+    quotas.refund("ana", 3, lateNight);
+    expect(quotas.status("ana", limits, nextDay).remaining).toBe(3);
+  });
+
+  it("persists the daily count across restarts", () => {
+    createQuotaStore(file).charge("ana", limits, 4, noon);
+    expect(JSON.parse(readFileSync(file, "utf8"))).toEqual({
+      version: 1,
+      days: { ana: { day: "2026-03-10", images: 4 } },
+    });
+
+    const restarted = createQuotaStore(file);
+    expect(restarted.status("ana", limits, noon).remaining).toBe(1);
+    expect(restarted.charge("ana", limits, 2, noon).allowed).toBe(false);
+  });
+});
@@ -0,0 +1,134 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { z } from "zod";
+
+export interface QuotaLimits {
+  requestsPerMinute: number;
+  imagesPerDay: number;
+}
+
+/** Where a caller stands against one of its limits, sent back in headers and 429 bodies. */
+export interface QuotaStatus {
+  limit: "requestsPerMinute" | "imagesPerDay";
+  quotaLimit: number;
+  remaining: number;
+  /** ISO date at which `remaining` goes back to `quotaLimit`. */
+  resetsAt: string;
+}
+
+export type QuotaDecision =
+  | { allowed: true; status: QuotaStatus }
+  | { allowed: false; status: QuotaStatus; retryAfterMs: number };
+
+const WINDOW_MS = 60_000;
+
+const usageFileSchema = z.object({
+  version: z.literal(1),
+  /** Images charged per user on `day` (UTC, YYYY-MM-DD); older days are dropped. */
+  days: z.record(z.object({ day: z.string(), images: z.number().int().min(0) })),
+});
+
+type UsageFile = z.infer<typeof usageFileSchema>;
+
+function utcDay(now: number) {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function nextUtcMidnight(now: number) {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
+
+function loadUsage(file: string): UsageFile {
+  if (!existsSync(file)) return { version: 1, days: {} };
+  const parsed = usageFileSchema.safeParse(JSON.parse(readFileSync(file, "utf8")));
+  if (!parsed.success) {
+    throw new Error(`${file} no tiene el formato esperado: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Per-user limits: a sliding one-minute window of requests, kept in memory,
+ * and a daily image count that resets at UTC midnight, persisted to `file` so
+ * restarting the proxy does not hand out a fresh quota.
+ *
+ * Images are reserved before forwarding and refunded when the upstream call
+ * fails, so concurrent requests cannot overshoot the daily limit.
+ */
+export function createQuotaStore(file: string) {
+  const usage = loadUsage(file);
+  const recentRequests = new Map<string, number[]>();
+
+  const persist = () => {
+    // Write-then-rename so a crash never leaves a truncated file behind
+    const tmp = `${file}.tmp`;
+    writeFileSync(tmp, JSON.stringify(usage, null, 2));
+    renameSync(tmp, file);
+  };
+
+  const imagesUsed = (user: string, now: number) => {
+    const entry = usage.days[user];
+    return entry && entry.day === utcDay(now) ? entry.images : 0;
+  };
+
+  const dailyStatus = (user: string, limits: QuotaLimits, now: number): QuotaStatus => ({
+    limit: "imagesPerDay",
+    quotaLimit: limits.imagesPerDay,
+    remaining: Math.max(0, limits.imagesPerDay - imagesUsed(user, now)),
+    resetsAt: new Date(nextUtcMidnight(now)).toISOString(),
+  });
+
+  return {
+    /**
+     * Counts one request and reserves `images` for `user`, unless that would
+     * break one of the limits. Nothing is charged when the answer is no.
+     */
+    charge(user: string, limits: QuotaLimits, images: number, now = Date.now()): QuotaDecision {
+      const recent = (recentRequests.get(user) ?? []).filter((t) => now - t < WINDOW_MS);
+      if (recent.length >= limits.requestsPerMinute) {
+        recentRequests.set(user, recent);
+        const resetsAt = recent[0] + WINDOW_MS;
+        return {
+          allowed: false,
+          retryAfterMs: resetsAt - now,
+          status: {
+            limit: "requestsPerMinute",
+            quotaLimit: limits.requestsPerMinute,
+            remaining: 0,
+            resetsAt: new Date(resetsAt).toISOString(),
+          },
+        };
+      }
+
+      const used = imagesUsed(user, now);
+      if (used + images > limits.imagesPerDay) {
+        const status = dailyStatus(user, limits, now);
+        return { allowed: false, retryAfterMs: Date.parse(status.resetsAt) - now, status };
+      }
+
+      recent.push(now);
+      recentRequests.set(user, recent);
+      usage.days[user] = { day: utcDay(now), images: used + images };
+      persist();
+      return { allowed: true, status: dailyStatus(user, limits, now) };
+    },
+
+    /**
+     * Gives back images reserved by `charge` at `chargedAt` for a request that
+     * produced nothing. A charge from a day that has already rolled over is not
+     * refunded: it belonged to that day's count, not to today's.
+     */
+    refund(user: string, images: number, chargedAt = Date.now()) {
+      const entry = usage.days[user];
+      if (!entry || entry.day !== utcDay(chargedAt)) return;
+      entry.images = Math.max(0, entry.images - images);
+      persist();
+    },
+
+    status(user: string, limits: QuotaLimits, now = Date.now()) {
+      return dailyStatus(user, limits, now);
+    },
+  };
+}
+
+export type QuotaStore = ReturnType<typeof createQuotaStore>;
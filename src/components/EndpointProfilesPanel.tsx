@@ -0,0 +1,356 @@
+import React from "react";
+import { Trash2 } from "lucide-react";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "./ui/accordion";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Textarea } from "./ui/textarea";
+import { showError, showSuccess } from "../utils/toast";
+import {
+  API_VERSIONS,
+  AUTH_SCHEME_LABELS,
+  AUTH_SCHEMES,
+  BUILT_IN_ENDPOINTS,
+  DEFAULT_ENDPOINT,
+  ENDPOINT_KINDS,
+  PROXY_ENDPOINT,
+  endpointProfileSchema,
+  formatHeaderLines,
+  loadCustomEndpoints,
+  parseHeaderLines,
+  saveCustomEndpoints,
+  VERTEX_ENDPOINT_TEMPLATE,
+  vertexBaseUrl,
+  type ApiVersion,
+  type AuthScheme,
+  type EndpointKind,
+  type EndpointProfile,
+} from "../lib/gemini/endpoints";
+
+const KIND_LABELS: Record<EndpointKind, string> = {
+  gemini: "Gemini API (AI Studio)",
+  vertex: "Vertex AI",
+  proxy: "Proxy del servidor (/api/generate)",
+};
+
+const KIND_TEMPLATES: Record<EndpointKind, Omit<EndpointProfile, "id" | "name">> = {
+  gemini: DEFAULT_ENDPOINT,
+  vertex: VERTEX_ENDPOINT_TEMPLATE,
+  proxy: PROXY_ENDPOINT,
+};
+
+interface EndpointDraft {
+  name: string;
+  kind: EndpointKind;
+  project: string;
+  location: string;
+  baseUrl: string;
+  apiVersion: ApiVersion;
+  auth: AuthScheme;
+  authHeader: string;
+  headersText: string;
+}
+
+function toDraft(profile: EndpointProfile): EndpointDraft {
+  return {
+    name: profile.builtIn ? "" : profile.name,
+    kind: profile.kind,
+    project: profile.project,
+    location: profile.location,
+    baseUrl: profile.baseUrl,
+    apiVersion: profile.apiVersion,
+    auth: profile.auth,
+    authHeader: profile.authHeader,
+    headersText: formatHeaderLines(profile.headers),
+  };
+}
+
+interface EndpointProfilesPanelProps {
+  value: EndpointProfile;
+  onChange: (profile: EndpointProfile) => void;
+  disabled?: boolean;
+}
+
+const EndpointProfilesPanel: React.FC<EndpointProfilesPanelProps> = ({
+  value,
+  onChange,
+  disabled,
+}) => {
+  const [customProfiles, setCustomProfiles] =
+    React.useState<EndpointProfile[]>(loadCustomEndpoints);
+  const [draft, setDraft] = React.useState<EndpointDraft>(() => toDraft(value));
+
+  const profiles = [...BUILT_IN_ENDPOINTS, ...customProfiles];
+
+  const persist = (next: EndpointProfile[]) => {
+    setCustomProfiles(next);
+    try {
+      saveCustomEndpoints(next);
+    } catch {
+      showError("No se pudieron guardar los endpoints en localStorage");
+    }
+  };
+
+  const selectProfile = (id: string) => {
+    const profile = profiles.find((p) => p.id === id);
+    if (!profile) return;
+    onChange(profile);
+    setDraft(toDraft(profile));
+  };
+
+  const saveDraft = () => {
+    const name = draft.name.trim();
+    const existing = customProfiles.find((p) => p.name === name);
+    const parsed = endpointProfileSchema.safeParse({
+      id: existing?.id ?? `custom-${Date.now()}`,
+      name,
+      kind: draft.kind,
+      project: draft.kind === "vertex" ? draft.project.trim() : "",
+      location: draft.kind === "vertex" ? draft.location.trim() : "",
+      baseUrl: draft.baseUrl.trim(),
+      apiVersion: draft.apiVersion,
+      auth: draft.auth,
+      authHeader: draft.authHeader.trim() || DEFAULT_ENDPOINT.authHeader,
+      headers: parseHeaderLines(draft.headersText),
+    });
+    if (!parsed.success) {
+      showError(parsed.error.issues[0]?.message ?? "Perfil de endpoint no válido.");
+      return;
+    }
+    if (BUILT_IN_ENDPOINTS.some((p) => p.name === name)) {
+      showError("Ese nombre pertenece a un endpoint predefinido.");
+      return;
+    }
+    const profile = parsed.data as EndpointProfile;
+    persist([...customProfiles.filter((p) => p.id !== profile.id), profile]);
+    onChange(profile);
+    showSuccess(`Endpoint "${name}" guardado`);
+  };
+
+  const deleteProfile = (id: string) => {
+    persist(customProfiles.filter((p) => p.id !== id));
+    if (value.id === id) selectProfile(DEFAULT_ENDPOINT.id);
+  };
+
+  const update = <K extends keyof EndpointDraft>(key: K, next: EndpointDraft[K]) =>
+    setDraft((d) => ({ ...d, [key]: next }));
+
+  const changeKind = (kind: EndpointKind) => {
+    const template = KIND_TEMPLATES[kind];
+    setDraft((d) => ({
+      ...d,
+      kind,
+      location: template.location,
+      baseUrl: template.baseUrl,
+      apiVersion: template.apiVersion,
+      auth: template.auth,
+      authHeader: template.authHeader,
+    }));
+  };
+
+  const changeLocation = (location: string) => {
+    setDraft((d) => ({
+      ...d,
+      location,
+      // Follow the regional host unless the URL was customised (e.g. a gateway)
+      baseUrl: d.baseUrl === vertexBaseUrl(d.location) ? vertexBaseUrl(location) : d.baseUrl,
+    }));
+  };
+
+  return (
+    <Accordion type="single" collapsible>
+      <AccordionItem value="endpoint-profiles">
+        <AccordionTrigger>
+          Endpoint
+          <span className="ml-auto mr-2 text-sm font-normal text-gray-500">{value.name}</span>
+        </AccordionTrigger>
+        <AccordionContent>
+          <div className="grid gap-4">
+            <div>
+              <Label className="mb-1">Perfil de endpoint</Label>
+              <div className="flex gap-2">
+                <Select value={value.id} onValueChange={selectProfile} disabled={disabled}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {profiles.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>
+                        {p.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {!value.builtIn && (
+                  <Button
+                    onClick={() => deleteProfile(value.id)}
+                    variant="ghost"
+                    size="icon"
+                    title="Eliminar endpoint"
+                    disabled={disabled}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="sm:col-span-2">
+                <Label className="mb-1">Tipo</Label>
+                <Select
+                  value={draft.kind}
+                  onValueChange={(v) => changeKind(v as EndpointKind)}
+                  disabled={disabled}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ENDPOINT_KINDS.map((kind) => (
+                      <SelectItem key={kind} value={kind}>
+                        {KIND_LABELS[kind]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {draft.kind === "vertex" && (
+                <>
+                  <div>
+                    <Label className="mb-1">Proyecto</Label>
+                    <Input
+                      value={draft.project}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        update("project", e.target.value)
+                      }
+                      placeholder="mi-proyecto-gcp"
+                      disabled={disabled}
+                    />
+                  </div>
+                  <div>
+                    <Label className="mb-1">Ubicación</Label>
+                    <Input
+                      value={draft.location}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        changeLocation(e.target.value)
+                      }
+                      placeholder="global"
+                      disabled={disabled}
+                    />
+                  </div>
+                </>
+              )}
+              <div className="sm:col-span-2">
+                <Label className="mb-1">
+                  {draft.kind === "proxy" ? "URL del despliegue" : "URL base"}
+                </Label>
+                <Input
+                  value={draft.baseUrl}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    update("baseUrl", e.target.value)
+                  }
+                  placeholder="https://generativelanguage.googleapis.com"
+                  disabled={disabled}
+                />
+              </div>
+              {draft.kind !== "proxy" && (
+                <div>
+                  <Label className="mb-1">Versión de la API</Label>
+                  <Select
+                    value={draft.apiVersion}
+                    onValueChange={(v) => update("apiVersion", v as ApiVersion)}
+                    disabled={disabled}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {API_VERSIONS.map((v) => (
+                        <SelectItem key={v} value={v}>
+                          {v}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div>
+                <Label className="mb-1">Autenticación</Label>
+                <Select
+                  value={draft.auth}
+                  onValueChange={(v) => update("auth", v as AuthScheme)}
+                  disabled={disabled}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {AUTH_SCHEMES.map((scheme) => (
+                      <SelectItem key={scheme} value={scheme}>
+                        {AUTH_SCHEME_LABELS[scheme]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {draft.kind === "proxy" && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Bearer con el PROXY_TOKEN del despliegue, o sin autenticación si esta web está
+                    en su PROXY_TRUSTED_ORIGINS.
+                  </p>
+                )}
+              </div>
+              {draft.auth === "header" && (
+                <div className="sm:col-span-2">
+                  <Label className="mb-1">Cabecera de la key</Label>
+                  <Input
+                    value={draft.authHeader}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      update("authHeader", e.target.value)
+                    }
+                    placeholder={DEFAULT_ENDPOINT.authHeader}
+                    disabled={disabled}
+                  />
+                </div>
+              )}
+              <div className="sm:col-span-2">
+                <Label className="mb-1">
+                  Cabeceras adicionales (una por línea, "Nombre: valor")
+                </Label>
+                <Textarea
+                  value={draft.headersText}
+                  onChange={(e) => update("headersText", e.target.value)}
+                  rows={3}
+                  className="font-mono text-xs"
+                  disabled={disabled}
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Input
+                value={draft.name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  update("name", e.target.value)
+                }
+                placeholder="Nombre del perfil"
+                className="flex-1"
+                disabled={disabled}
+              />
+              <Button
+                onClick={saveDraft}
+                variant="secondary"
+                disabled={disabled || !draft.name.trim()}
+              >
+                Guardar endpoint
+              </Button>
+            </div>
+          </div>
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+};
+
+export default EndpointProfilesPanel;
@@ -4,23 +4,183 @@ import React from "react";
 import { Input } from "./ui/input";
 import { Button } from "./ui/button";
 import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
 import { cn } from "../lib/utils";
-import { showSuccess, showError, showLoading, dismissToast } from "../utils/toast";
+import { base64Length, base64ToBlob, base64ToBytes } from "../lib/image";
+import {
+  showSuccess,
+  showError,
+  showInfo,
+  showLoading,
+  updateLoading,
+  dismissToast,
+} from "../utils/toast";
+import GeneratedResultGrid, { type GeneratedEntry } from "./GeneratedResultGrid";
+import ModelSelector from "./ModelSelector";
+import GenerationSettingsPanel from "./GenerationSettingsPanel";
+import SafetySettingsPanel from "./SafetySettingsPanel";
+import EndpointProfilesPanel from "./EndpointProfilesPanel";
+import ProviderSettingsPanel from "./ProviderSettingsPanel";
+import RequestInspectorPanel from "./RequestInspectorPanel";
+import RawContentsPanel from "./RawContentsPanel";
+import ImageUrlImport from "./ImageUrlImport";
+import SourceImageList, { type SourceImage } from "./SourceImageList";
+import PreprocessSettingsPanel from "./PreprocessSettingsPanel";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import {
+  DEFAULT_MODEL,
+  groupResultEntries,
+  withAbort,
+  type ResultEntry,
+} from "../lib/gemini/client";
+import {
+  explainApiError,
+  GeminiApiError,
+  GeminiResponseError,
+  GeminiTimeoutError,
+  HttpStatusError,
+  isAbortError,
+  NetworkError,
+} from "../lib/gemini/errors";
+import { DEFAULT_RETRY_OPTIONS, type RetryAttempt } from "../lib/gemini/retry";
+import {
+  DEFAULT_GENERATION_SETTINGS,
+  toGenerationConfig,
+  type GenerationSettings,
+} from "../lib/gemini/generation-config";
+import {
+  BUILT_IN_SAFETY_PROFILES,
+  DEFAULT_SAFETY_PROFILE,
+  loadCustomSafetyProfiles,
+  matchSafetyProfile,
+  toSafetySettings,
+  type SafetyThresholds,
+} from "../lib/gemini/safety";
+import {
+  AUTH_SCHEME_LABELS,
+  BUILT_IN_ENDPOINTS,
+  DEFAULT_ENDPOINT,
+  loadCustomEndpoints,
+  PROXY_ENDPOINT,
+  type EndpointProfile,
+} from "../lib/gemini/endpoints";
+import {
+  ensureUploaded,
+  filesApiInputs,
+  requestSizeLimit,
+  supportsFilesApi,
+} from "../lib/gemini/files";
+import type { GenerateResult, GenerationMetadata } from "../lib/gemini/types";
+import {
+  DEFAULT_PROVIDER_ID,
+  IMAGE_PROVIDERS,
+  isProviderId,
+  loadExternalProviderSettings,
+  PROVIDER_IDS,
+  saveExternalProviderSettings,
+  type ExternalProviderSettings,
+} from "../lib/providers/registry";
+import type { ProviderId } from "../lib/providers/types";
+import { createRecordingFetch, secretVariants, type HttpExchange } from "../lib/inspector";
+import type { RawRequest } from "../lib/gemini/raw-contents";
+import {
+  droppedImageUrl,
+  fetchImageFile,
+  IMAGE_IMPORT_TIMEOUT_MS,
+  imageFiles,
+  mayCarryImage,
+} from "../lib/image-sources";
+import { ensureSupportedImage, UnsupportedImageError } from "../lib/input-formats";
+import {
+  loadPreprocessSettings,
+  preprocessImage,
+  preprocessSettingsSchema,
+  savePreprocessSettings,
+  type PreprocessSettings,
+} from "../lib/preprocess";
+import {
+  generationMetadata,
+  runGeneration,
+  validateJob,
+  type ExternalJob,
+  type GenerationJob,
+} from "../lib/generation";
 
-const ENDPOINT =
-  "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-image:generateContent";
+// Each provider keeps its own key; Gemini's keeps the original storage key.
+// The demo provider never authenticates.
+const API_KEY_STORAGE_KEYS: Partial<Record<ProviderId, string>> = {
+  gemini: "gemini_api_key",
+  openai: "openai_api_key",
+  "stable-diffusion": "sd_api_key",
+};
+const PROVIDER_STORAGE_KEY = "image_provider";
+// Builds with VITE_DEMO_MODE=true (CI previews, offline demos) start on the demo provider
+const INITIAL_PROVIDER_ID: ProviderId =
+  import.meta.env.VITE_DEMO_MODE === "true" ? "demo" : DEFAULT_PROVIDER_ID;
+const MODEL_STORAGE_KEY = "gemini_model";
+const ENDPOINT_STORAGE_KEY = "gemini_endpoint";
+// Deployments with VITE_PROXY_MODE=true send requests through /api/generate by default
+const INITIAL_ENDPOINT =
+  import.meta.env.VITE_PROXY_MODE === "true" ? PROXY_ENDPOINT : DEFAULT_ENDPOINT;
+const DEFAULT_TIMEOUT_SECONDS = 120;
+
+function revokeEntries(entries: GeneratedEntry[]) {
+  for (const entry of entries) {
+    if (entry.imageUrl) URL.revokeObjectURL(entry.imageUrl);
+  }
+}
+
+type ImageUrlCache = Map<string, { url: string; mimeType: string }>;
+
+/**
+ * Turns grouped result entries into renderable ones. Object URLs are cached by
+ * candidate and image position so streaming updates don't recreate them.
+ */
+function toGeneratedEntries(
+  grouped: ResultEntry[],
+  runId: string,
+  cache: ImageUrlCache,
+  metadata: GenerationMetadata
+) {
+  const imageOrdinals = new Map<number, number>();
+  return grouped.map((entry, i): GeneratedEntry => {
+    let image: { url: string; mimeType: string } | undefined;
+    if (entry.image) {
+      const ordinal = imageOrdinals.get(entry.candidateIndex) ?? 0;
+      imageOrdinals.set(entry.candidateIndex, ordinal + 1);
+      const key = `${entry.candidateIndex}:${ordinal}`;
+      image = cache.get(key);
+      if (!image) {
+        const blob = base64ToBlob(entry.image.data, entry.image.mimeType);
+        image = { url: URL.createObjectURL(blob), mimeType: blob.type };
+        cache.set(key, image);
+      }
+    }
+    return {
+      id: `${runId}-${i}`,
+      candidateIndex: entry.candidateIndex,
+      imageUrl: image?.url ?? null,
+      mimeType: image?.mimeType ?? null,
+      texts: entry.texts,
+      finishReason: entry.finishReason,
+      metadata,
+    };
+  });
+}
 
-function base64ToBlob(base64: string, contentType = "image/png") {
-  const binary = atob(base64);
-  const len = binary.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binary.charCodeAt(i);
+function loadApiKey(provider: ProviderId) {
+  const storageKey = API_KEY_STORAGE_KEYS[provider];
+  if (!storageKey) return "";
+  try {
+    return localStorage.getItem(storageKey) ?? "";
+  } catch {
+    return "";
   }
-  return new Blob([bytes], { type: contentType });
 }
 
-const STORAGE_KEY = "gemini_api_key";
+function formatElapsed(ms: number) {
+  return `${(ms / 1000).toFixed(1)} s`;
+}
 
 async function fileToBase64WithoutPrefix(file: File): Promise<{ base64: string; mime: string }> {
   return await new Promise((resolve, reject) => {
@@ -46,226 +206,698 @@ async function fileToBase64WithoutPrefix(file: File): Promise<{ base64: string;
 }
 
 const GeminiImageGenerator: React.FC = () => {
-  const [apiKey, setApiKey] = React.useState<string>(() => {
+  const [providerId, setProviderId] = React.useState<ProviderId>(() => {
     try {
-      return localStorage.getItem(STORAGE_KEY) ?? "";
+      const saved = localStorage.getItem(PROVIDER_STORAGE_KEY);
+      return isProviderId(saved) ? saved : INITIAL_PROVIDER_ID;
     } catch {
-      return "";
+      return INITIAL_PROVIDER_ID;
+    }
+  });
+  const [providerSettings, setProviderSettings] = React.useState<ExternalProviderSettings>(
+    loadExternalProviderSettings
+  );
+  const [apiKey, setApiKey] = React.useState<string>(() => loadApiKey(providerId));
+  const [endpoint, setEndpoint] = React.useState<EndpointProfile>(() => {
+    try {
+      const id = localStorage.getItem(ENDPOINT_STORAGE_KEY);
+      return (
+        [...BUILT_IN_ENDPOINTS, ...loadCustomEndpoints()].find((p) => p.id === id) ??
+        INITIAL_ENDPOINT
+      );
+    } catch {
+      return INITIAL_ENDPOINT;
+    }
+  });
+  // Key the model list is fetched with; follows the key once it is saved
+  const [savedApiKey, setSavedApiKey] = React.useState(() => loadApiKey("gemini"));
+  const [model, setModel] = React.useState<string>(() => {
+    try {
+      return localStorage.getItem(MODEL_STORAGE_KEY) ?? DEFAULT_MODEL;
+    } catch {
+      return DEFAULT_MODEL;
     }
   });
   const [prompt, setPrompt] = React.useState<string>(
     "Create a picture of a nano banana dish in a fancy restaurant with a Gemini theme"
   );
+  // null while the settings form has validation errors
+  const [generationSettings, setGenerationSettings] = React.useState<GenerationSettings | null>(
+    DEFAULT_GENERATION_SETTINGS
+  );
+  // Advanced mode: authored contents replace the prompt and input image
+  const [rawMode, setRawMode] = React.useState(false);
+  const [rawRequest, setRawRequest] = React.useState<RawRequest | null>(null);
+  const [safetyThresholds, setSafetyThresholds] = React.useState<SafetyThresholds>(
+    DEFAULT_SAFETY_PROFILE.thresholds
+  );
   const [loading, setLoading] = React.useState(false);
+  const [streaming, setStreaming] = React.useState(false);
+  const [elapsedMs, setElapsedMs] = React.useState(0);
+  const [timeoutSeconds, setTimeoutSeconds] = React.useState(DEFAULT_TIMEOUT_SECONDS);
+  const [maxRetries, setMaxRetries] = React.useState(DEFAULT_RETRY_OPTIONS.maxRetries);
+  // Controller of the in-flight generation; also guards against double submission
+  const abortRef = React.useRef<AbortController | null>(null);
 
-  // Generated image state
-  const [generatedImageUrl, setGeneratedImageUrl] = React.useState<string | null>(null);
-  const [generatedImageBlob, setGeneratedImageBlob] = React.useState<Blob | null>(null);
+  // Generated results: one entry per returned image (or text-only candidate)
+  const [generatedEntries, setGeneratedEntries] = React.useState<GeneratedEntry[]>([]);
+  const generatedEntriesRef = React.useRef<GeneratedEntry[]>([]);
+  generatedEntriesRef.current = generatedEntries;
+  // Partial entries shown while a streamed generation is still arriving
+  const [streamEntries, setStreamEntries] = React.useState<GeneratedEntry[]>([]);
 
-  // Source/uploaded image state (for inline_data)
-  const [sourceFile, setSourceFile] = React.useState<File | null>(null);
-  const [sourceBase64, setSourceBase64] = React.useState<string | null>(null);
-  const [sourceMime, setSourceMime] = React.useState<string | null>(null);
-  const [sourcePreviewUrl, setSourcePreviewUrl] = React.useState<string | null>(null);
+  // Input images, sent in this order (as inline_data or Files API references)
+  const [sourceImages, setSourceImages] = React.useState<SourceImage[]>([]);
+  const sourceImagesRef = React.useRef<SourceImage[]>([]);
+  sourceImagesRef.current = sourceImages;
+  const [preprocess, setPreprocess] = React.useState<PreprocessSettings>(loadPreprocessSettings);
+  // Drag over the card; entering child elements fires enter/leave pairs, hence the depth
+  const [dragActive, setDragActive] = React.useState(false);
+  const dragDepthRef = React.useRef(0);
+  // HTTP traffic of the last generation and model listings, for the inspector
+  const [exchanges, setExchanges] = React.useState<HttpExchange[]>([]);
+  const recordExchange = (exchange: HttpExchange) =>
+    setExchanges((prev) =>
+      prev.some((e) => e.id === exchange.id)
+        ? prev.map((e) => (e.id === exchange.id ? exchange : e))
+        : [...prev, exchange]
+    );
+  // Downloads of input images from URLs still running, so they can be cancelled
+  const importsRef = React.useRef(new Set<AbortController>());
 
   // Cleanup object URLs on unmount
   React.useEffect(() => {
+    const imports = importsRef.current;
     return () => {
-      if (generatedImageUrl) URL.revokeObjectURL(generatedImageUrl);
-      if (sourcePreviewUrl) URL.revokeObjectURL(sourcePreviewUrl);
+      abortRef.current?.abort();
+      for (const controller of imports) controller.abort();
+      revokeEntries(generatedEntriesRef.current);
+      for (const image of sourceImagesRef.current) URL.revokeObjectURL(image.previewUrl);
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Live elapsed timer while a generation is running
+  React.useEffect(() => {
+    if (!loading) return;
+    const startedAt = Date.now();
+    setElapsedMs(0);
+    const id = window.setInterval(() => setElapsedMs(Date.now() - startedAt), 100);
+    return () => window.clearInterval(id);
+  }, [loading]);
+
+  const provider = IMAGE_PROVIDERS[providerId];
+  const { capabilities } = provider;
+  const isGemini = providerId === "gemini";
+  const streamingActive = streaming && capabilities.streaming;
+  const rawActive = isGemini && rawMode;
+  // Nothing to enter when the key stays server-side (proxy) or isn't needed at all
+  const showApiKey = !!API_KEY_STORAGE_KEYS[providerId] && !(isGemini && endpoint.auth === "none");
+
   const saveApiKey = () => {
+    const storageKey = API_KEY_STORAGE_KEYS[providerId];
+    if (!storageKey) return;
     try {
-      localStorage.setItem(STORAGE_KEY, apiKey);
+      localStorage.setItem(storageKey, apiKey);
+      if (isGemini) setSavedApiKey(apiKey);
       showSuccess("API key guardada en localStorage");
     } catch {
       showError("No se pudo guardar la API key en localStorage");
     }
   };
 
+  const onModelChange = (value: string) => {
+    setModel(value);
+    try {
+      localStorage.setItem(MODEL_STORAGE_KEY, value);
+    } catch {
+      // selection still applies to this session
+    }
+  };
+
+  const onProviderChange = (id: ProviderId) => {
+    setProviderId(id);
+    setApiKey(loadApiKey(id));
+    try {
+      localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+    } catch {
+      // selection still applies to this session
+    }
+  };
+
+  const onProviderSettingsChange = (settings: ExternalProviderSettings) => {
+    setProviderSettings(settings);
+    try {
+      saveExternalProviderSettings(settings);
+    } catch {
+      // settings still apply to this session
+    }
+  };
+
+  const onEndpointChange = (profile: EndpointProfile) => {
+    setEndpoint(profile);
+    try {
+      localStorage.setItem(ENDPOINT_STORAGE_KEY, profile.id);
+    } catch {
+      // selection still applies to this session
+    }
+  };
+
   const clearGeneratedImage = () => {
-    if (generatedImageUrl) {
-      URL.revokeObjectURL(generatedImageUrl);
-      setGeneratedImageUrl(null);
-      setGeneratedImageBlob(null);
+    revokeEntries(generatedEntries);
+    setGeneratedEntries([]);
+  };
+
+  // Replaces the list (reorder, removal, role edits), releasing removed previews
+  const onSourceImagesChange = (next: SourceImage[]) => {
+    for (const image of sourceImages) {
+      if (!next.some((other) => other.id === image.id)) URL.revokeObjectURL(image.previewUrl);
     }
+    setSourceImages(next);
   };
 
-  const clearSourceImage = () => {
-    setSourceFile(null);
-    setSourceBase64(null);
-    setSourceMime(null);
-    if (sourcePreviewUrl) {
-      URL.revokeObjectURL(sourcePreviewUrl);
-      setSourcePreviewUrl(null);
+  const clearSourceImages = () => onSourceImagesChange([]);
+
+  const patchSourceImage = (id: string, patch: Partial<SourceImage>) =>
+    setSourceImages((prev) =>
+      prev.map((image) => (image.id === id ? { ...image, ...patch } : image))
+    );
+
+  const onPreprocessChange = (settings: PreprocessSettings) => {
+    setPreprocess(settings);
+    try {
+      savePreprocessSettings(settings);
+    } catch {
+      // settings still apply to this session
     }
   };
 
-  const onSourceFileChange = async (file?: File) => {
-    if (!file) {
-      clearSourceImage();
-      return;
+  // Runs the preprocessing pipeline (when on) and encodes the result; null when it fails
+  const loadSourceImage = async (
+    original: File,
+    base: Pick<SourceImage, "id" | "role" | "sourceUrl">
+  ): Promise<SourceImage | null> => {
+    let file: File;
+    try {
+      file = await ensureSupportedImage(original, capabilities.inputFormats, provider.label);
+    } catch (e) {
+      showError(
+        e instanceof UnsupportedImageError ? e.message : `No se pudo leer ${original.name}.`
+      );
+      return null;
+    }
+    if (preprocess.enabled && preprocessSettingsSchema.safeParse(preprocess).success) {
+      try {
+        file = await preprocessImage(file, preprocess);
+      } catch (e) {
+        showError(`No se pudo preprocesar ${original.name}; se usa la imagen original.`);
+        console.error("Preprocess error:", e);
+      }
     }
     try {
       const { base64, mime } = await fileToBase64WithoutPrefix(file);
-      // create preview URL
-      const preview = URL.createObjectURL(file);
-      // revoke old preview if present
-      if (sourcePreviewUrl) {
-        URL.revokeObjectURL(sourcePreviewUrl);
-      }
-      setSourceFile(file);
-      setSourceBase64(base64);
-      setSourceMime(mime);
-      setSourcePreviewUrl(preview);
+      return {
+        ...base,
+        original,
+        file,
+        base64,
+        mime,
+        previewUrl: URL.createObjectURL(file),
+        upload: null,
+        uploadProgress: null,
+      };
     } catch (e) {
-      showError("No se pudo procesar la imagen de entrada.");
+      showError(`No se pudo procesar la imagen de entrada ${original.name}.`);
       console.error("fileToBase64 error:", e);
+      return null;
     }
   };
 
-  const handleGenerate = async () => {
-    if (!apiKey) {
-      showError("Introduce la API key antes de generar la imagen.");
-      return;
+  // Resolves to the number of images that could be loaded
+  const onSourceFilesAdd = async (files: File[], sourceUrl?: string) => {
+    const added: SourceImage[] = [];
+    for (const file of files) {
+      const image = await loadSourceImage(file, {
+        id: `${Date.now()}-${added.length}-${file.name}`,
+        role: "",
+        sourceUrl,
+      });
+      if (image) added.push(image);
     }
-    if (!prompt) {
-      showError("Escribe un prompt para generar la imagen.");
-      return;
+    if (added.length === 0) return 0;
+    // Providers with a single input replace it instead of adding another
+    if (capabilities.multipleInputs) {
+      setSourceImages((prev) => [...prev, ...added]);
+    } else {
+      onSourceImagesChange(added.slice(-1));
+      for (const image of added.slice(0, -1)) URL.revokeObjectURL(image.previewUrl);
     }
+    return added.length;
+  };
 
-    setLoading(true);
-    const loadingId = showLoading("Generando imagen...");
+  // Re-runs the pipeline from the originals after the settings change
+  const reprocessSourceImages = async () => {
+    const next: SourceImage[] = [];
+    for (const image of sourceImages) {
+      const reloaded = await loadSourceImage(image.original, image);
+      if (reloaded) URL.revokeObjectURL(image.previewUrl);
+      next.push(reloaded ?? image);
+    }
+    setSourceImages(next);
+  };
 
-    // Build parts: always include prompt text first
-    const parts: any[] = [{ text: prompt }];
+  // A proxy endpoint also downloads remote images, for hosts without CORS headers
+  const imageProxy =
+    endpoint.kind === "proxy" ? { endpoint, apiKey: isGemini ? apiKey : savedApiKey } : undefined;
 
-    // If there's a source image, include inline_data part
-    if (sourceBase64 && sourceMime) {
-      parts.push({
-        inline_data: {
-          mime_type: sourceMime,
-          data: sourceBase64,
-        },
-      });
+  const importImageUrl = async (url: string) => {
+    const loadingId = showLoading("Descargando imagen...");
+    const controller = new AbortController();
+    importsRef.current.add(controller);
+    try {
+      const file = await withAbort(
+        { signal: controller.signal, timeoutMs: IMAGE_IMPORT_TIMEOUT_MS },
+        (signal) => fetchImageFile(url, { signal, proxy: imageProxy })
+      );
+      return (await onSourceFilesAdd([file], url.startsWith("data:") ? undefined : url)) > 0;
+    } catch (e) {
+      if (isAbortError(e)) {
+        showInfo("Descarga cancelada.");
+        return false;
+      }
+      showError(
+        e instanceof TypeError
+          ? "No se pudo descargar la imagen: el servidor no permite leerla desde otra web (CORS). Usa un endpoint de tipo proxy, o guárdala y súbela como archivo."
+          : `No se pudo descargar la imagen: ${e instanceof Error ? e.message : String(e)}`
+      );
+      return false;
+    } finally {
+      importsRef.current.delete(controller);
+      dismissToast(loadingId);
     }
+  };
 
-    const body = {
-      contents: [
-        {
-          parts,
-        },
-      ],
-    };
+  const cancelImports = () => {
+    for (const controller of importsRef.current) controller.abort();
+  };
 
-    try {
-      const res = await fetch(ENDPOINT, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-goog-api-key": apiKey,
-        },
-        body: JSON.stringify(body),
-      });
+  const acceptsInputs = capabilities.imageEdit && !rawActive && !loading;
 
-      dismissToast(loadingId);
+  // Why a drop or paste of images is refused right now, or null when it is accepted
+  const inputsRefusal = () => {
+    if (!capabilities.imageEdit) return `${provider.label} no admite imágenes de entrada.`;
+    if (rawActive) return "En modo avanzado, suelta las imágenes en el editor de contents.";
+    if (loading) return "Espera a que termine la generación para añadir imágenes.";
+    return null;
+  };
 
-      if (!res.ok) {
-        const text = await res.text();
-        showError(`Error en la API: ${res.status} ${res.statusText}`);
-        console.error("Response text:", text);
-        setLoading(false);
+  const onSourceDrop = async (data: DataTransfer) => {
+    const files = imageFiles(data);
+    if (files.length > 0) {
+      await onSourceFilesAdd(files);
+      return;
+    }
+    const url = droppedImageUrl(data);
+    if (!url) {
+      showError("Lo que has soltado no contiene ninguna imagen.");
+      return;
+    }
+    await importImageUrl(url);
+  };
+
+  const dragHandlers: React.HTMLAttributes<HTMLDivElement> = {
+    onDragEnter: (e) => {
+      if (!mayCarryImage(e.dataTransfer)) return;
+      dragDepthRef.current += 1;
+      setDragActive(true);
+    },
+    onDragOver: (e) => {
+      if (!mayCarryImage(e.dataTransfer)) return;
+      // Without this the browser would open the image instead of dropping it
+      e.preventDefault();
+      e.dataTransfer.dropEffect = acceptsInputs ? "copy" : "none";
+    },
+    onDragLeave: (e) => {
+      if (!mayCarryImage(e.dataTransfer)) return;
+      dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+      if (dragDepthRef.current === 0) setDragActive(false);
+    },
+    // Capture phase: drops the raw contents editor keeps for itself end the drag too
+    onDropCapture: () => {
+      dragDepthRef.current = 0;
+      setDragActive(false);
+    },
+    onDrop: (e) => {
+      if (!mayCarryImage(e.dataTransfer)) return;
+      e.preventDefault();
+      const refusal = inputsRefusal();
+      if (refusal) {
+        showError(refusal);
         return;
       }
+      onSourceDrop(e.dataTransfer);
+    },
+  };
 
-      const text = await res.text();
+  // Ctrl+V of screenshots or copied images anywhere on the page; text pastes are left alone
+  const onPaste = (e: ClipboardEvent) => {
+    const files = imageFiles(e.clipboardData);
+    if (files.length === 0 || !acceptsInputs) return;
+    e.preventDefault();
+    onSourceFilesAdd(files);
+  };
+  const onPasteRef = React.useRef(onPaste);
+  onPasteRef.current = onPaste;
 
-      // Extraer campo "data": "BASE64..." si existe en la respuesta
-      const match = text.match(/"data"\s*:\s*"([^"]*)"/);
-      let base64: string | null = null;
+  React.useEffect(() => {
+    const listener = (e: ClipboardEvent) => onPasteRef.current(e);
+    window.addEventListener("paste", listener);
+    return () => window.removeEventListener("paste", listener);
+  }, []);
 
-      if (match && match[1]) {
-        base64 = match[1];
-      } else {
-        // Intentar parsear JSON y buscar recursivamente
-        try {
-          const parsed = JSON.parse(text);
-          const findData = (obj: any): string | null => {
-            if (!obj || typeof obj !== "object") return null;
-            if (typeof obj.data === "string") return obj.data;
-            for (const key of Object.keys(obj)) {
-              const val = obj[key];
-              if (typeof val === "object") {
-                const found = findData(val);
-                if (found) return found;
-              }
-            }
-            return null;
-          };
-          base64 = findData(parsed);
-        } catch (e) {
-          // ignore
+  // Large inputs go through the Files API so the request stays under the size limit
+  const filesApiIds = new Set(
+    isGemini && supportsFilesApi(endpoint)
+      ? [...filesApiInputs(sourceImages.map(({ file }) => file.size))].map(
+          (i) => sourceImages[i].id
+        )
+      : []
+  );
+  const goesThroughFilesApi = ({ id }: SourceImage) => filesApiIds.has(id);
+
+  const inlineRequestBytes = sourceImages
+    .filter((image) => !goesThroughFilesApi(image))
+    .reduce((total, { file }) => total + base64Length(file.size), 0);
+
+  const handleGenerate = async () => {
+    if (abortRef.current) return;
+    if (isGemini && !generationSettings) {
+      showError("Corrige los ajustes de generación antes de continuar.");
+      return;
+    }
+    if (rawActive && !rawRequest) {
+      showError("Corrige el JSON de contents antes de continuar.");
+      return;
+    }
+    const inputs = capabilities.imageEdit && !rawActive ? sourceImages : [];
+    const images = inputs.map(({ mime, base64, role, sourceUrl }) => ({
+      mimeType: mime,
+      data: base64,
+      role,
+      sourceUrl,
+    }));
+    const job: GenerationJob =
+      providerId === "gemini"
+        ? {
+            providerId,
+            prompt,
+            images,
+            apiKey,
+            model,
+            settings: {
+              endpoint,
+              generationConfig: generationSettings
+                ? toGenerationConfig(generationSettings)
+                : undefined,
+              safetySettings: toSafetySettings(safetyThresholds),
+              ...(rawActive && rawRequest),
+            },
+            safetyProfile: matchSafetyProfile(safetyThresholds, [
+              ...BUILT_IN_SAFETY_PROFILES,
+              ...loadCustomSafetyProfiles(),
+            ]),
+          }
+        : ({
+            providerId,
+            prompt,
+            images,
+            apiKey,
+            settings: providerSettings[providerId],
+          } as ExternalJob);
+    const invalid = validateJob(job);
+    if (invalid) {
+      showError(invalid);
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setLoading(true);
+    const loadingId = showLoading("Generando imagen...");
+
+    const uploads = inputs.filter(goesThroughFilesApi);
+
+    setExchanges([]);
+    const recordingFetch = createRecordingFetch(secretVariants(apiKey), recordExchange);
+
+    const runId = String(Date.now());
+    const urlCache: ImageUrlCache = new Map();
+    const metadataFor = (result: GenerateResult) =>
+      generationMetadata(job, result, new Date(Number(runId)));
+    const onUpdate = (partial: GenerateResult) => {
+      setStreamEntries(
+        toGeneratedEntries(groupResultEntries(partial), runId, urlCache, metadataFor(partial))
+      );
+    };
+
+    let countdownId: number | undefined;
+    const onRetry = ({ attempt, maxAttempts, delayMs, error }: RetryAttempt) => {
+      console.warn("Error transitorio, reintentando:", error);
+      // A retried stream starts over, so drop what the failed attempt rendered
+      for (const { url } of urlCache.values()) URL.revokeObjectURL(url);
+      urlCache.clear();
+      setStreamEntries([]);
+
+      const resumeAt = Date.now() + delayMs;
+      const tick = () => {
+        const remaining = Math.ceil((resumeAt - Date.now()) / 1000);
+        if (remaining <= 0) {
+          window.clearInterval(countdownId);
+          updateLoading(loadingId, `Generando imagen (intento ${attempt}/${maxAttempts})...`);
+          return;
         }
+        updateLoading(
+          loadingId,
+          `Error transitorio. Intento ${attempt}/${maxAttempts} en ${remaining} s...`
+        );
+      };
+      window.clearInterval(countdownId);
+      tick();
+      countdownId = window.setInterval(tick, 250);
+    };
+
+    try {
+      const fileUris = new Map<string, string>();
+      for (const input of uploads) {
+        const label =
+          uploads.length > 1 ? `Subiendo ${input.file.name}` : "Subiendo imagen de entrada";
+        updateLoading(loadingId, `${label}...`);
+        patchSourceImage(input.id, { uploadProgress: 0 });
+        const { file } = await ensureUploaded(
+          base64ToBytes(input.base64),
+          input.mime,
+          input.file.name,
+          {
+            apiKey,
+            endpoint,
+            signal: controller.signal,
+            fetch: recordingFetch,
+            onProgress: ({ loaded, total }) => {
+              const percent = Math.round((loaded / total) * 100);
+              patchSourceImage(input.id, { uploadProgress: percent });
+              updateLoading(loadingId, `${label}: ${percent} %`);
+            },
+          }
+        );
+        patchSourceImage(input.id, { upload: file, uploadProgress: null });
+        fileUris.set(input.id, file.uri);
       }
+      if (uploads.length > 0) updateLoading(loadingId, "Generando imagen...");
+      const sent: GenerationJob =
+        fileUris.size > 0
+          ? {
+              ...job,
+              images: images.map((image, i) => ({ ...image, fileUri: fileUris.get(inputs[i].id) })),
+            }
+          : job;
+
+      const {
+        result,
+        entries: grouped,
+        blocked,
+      } = await runGeneration(sent, {
+        maxRetries: maxRetries || 0,
+        signal: controller.signal,
+        timeoutMs: Math.max(5, timeoutSeconds || DEFAULT_TIMEOUT_SECONDS) * 1000,
+        onRetry,
+        onUpdate: streamingActive ? onUpdate : undefined,
+        fetch: recordingFetch,
+      });
+      dismissToast(loadingId);
 
-      if (!base64) {
-        showError("No se encontró datos de imagen en la respuesta.");
-        console.error("Respuesta completa:", text);
-        setLoading(false);
+      if (grouped.length === 0) {
+        showError(
+          blocked.length > 0 ? blocked.join(" ") : "No se encontró datos de imagen en la respuesta."
+        );
+        console.error("Respuesta completa:", result.raw);
         return;
       }
 
       try {
-        const blob = base64ToBlob(base64);
-        clearGeneratedImage();
-        const url = URL.createObjectURL(blob);
-        setGeneratedImageBlob(blob);
-        setGeneratedImageUrl(url);
-        showSuccess("Imagen generada correctamente");
+        const entries = toGeneratedEntries(grouped, runId, urlCache, metadataFor(result));
+        revokeEntries(generatedEntries);
+        setGeneratedEntries(entries);
+        urlCache.clear();
+        const imageCount = entries.filter((e) => e.imageUrl).length;
+        if (imageCount > 0) {
+          showSuccess(
+            imageCount > 1
+              ? `${imageCount} imágenes generadas correctamente`
+              : "Imagen generada correctamente"
+          );
+          // Some candidates may still have been cut short or filtered
+          if (blocked.length > 0) showInfo(blocked.join(" "));
+        } else if (blocked.length > 0) {
+          showError(blocked.join(" "));
+        } else {
+          showError("El modelo respondió sin imagen. Revisa su respuesta de texto.");
+        }
       } catch (e) {
         showError("Error procesando la imagen recibida.");
         console.error("Blob conversion error:", e);
       }
     } catch (e) {
-      // network or unexpected error
       dismissToast(loadingId);
-      showError("Error al conectar con la API.");
-      console.error("Fetch error:", e);
+      if (isAbortError(e)) {
+        showInfo("Generación cancelada.");
+      } else if (e instanceof GeminiTimeoutError) {
+        showError(e.message);
+      } else if (e instanceof GeminiApiError) {
+        const { title, guidance } = explainApiError(e);
+        showError(`${title}. ${guidance}`);
+        console.error(`API error (${e.kind}):`, e.error ?? e.body);
+      } else if (e instanceof HttpStatusError) {
+        showError(`${provider.label} respondió ${e.status}: ${e.message}`);
+        console.error("API error:", e.body);
+      } else if (e instanceof GeminiResponseError) {
+        showError(e.message);
+        console.error("Respuesta completa:", e.body);
+      } else if (e instanceof NetworkError) {
+        showError("Error al conectar con la API.");
+        console.error("Fetch error:", e);
+      } else {
+        showError(`Error inesperado: ${e instanceof Error ? e.message : String(e)}`);
+        console.error(e);
+      }
     } finally {
+      window.clearInterval(countdownId);
+      setSourceImages((prev) => prev.map((image) => ({ ...image, uploadProgress: null })));
+      // Whatever is still cached never made it into the final result
+      for (const { url } of urlCache.values()) URL.revokeObjectURL(url);
+      setStreamEntries([]);
+      abortRef.current = null;
       setLoading(false);
     }
   };
 
+  const cancelGenerate = () => {
+    abortRef.current?.abort();
+  };
+
   return (
-    <div className="max-w-3xl mx-auto p-6 bg-white rounded-lg shadow-sm">
+    <div className="relative max-w-3xl mx-auto p-6 bg-white rounded-lg shadow-sm" {...dragHandlers}>
+      {dragActive && acceptsInputs && (
+        <div className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center rounded-lg border-2 border-dashed border-primary bg-white/80 text-lg font-medium">
+          Suelta las imágenes aquí
+        </div>
+      )}
       <h2 className="text-2xl font-semibold mb-4">Generador de imágenes Gemini</h2>
 
       <div className="grid gap-4">
         <div>
-          <Label className="mb-1">API Key (x-goog-api-key)</Label>
-          <div className="flex gap-2">
-            <Input
-              type="password"
-              value={apiKey}
-              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                setApiKey(e.target.value)
-              }
-              placeholder="Introduce tu API key de Gemini"
-              className="flex-1"
-            />
-            <Button onClick={saveApiKey} className="whitespace-nowrap" variant="default">
-              Guardar
-            </Button>
+          <Label className="mb-1">Proveedor</Label>
+          <Select
+            value={providerId}
+            onValueChange={(v) => onProviderChange(v as ProviderId)}
+            disabled={loading}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PROVIDER_IDS.map((id) => (
+                <SelectItem key={id} value={id}>
+                  {IMAGE_PROVIDERS[id].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {showApiKey && (
+          <div>
+            <Label className="mb-1">
+              {isGemini
+                ? `API Key (${
+                    endpoint.auth === "header"
+                      ? endpoint.authHeader
+                      : AUTH_SCHEME_LABELS[endpoint.auth]
+                  })`
+                : providerId === "openai"
+                  ? "API Key (Authorization: Bearer)"
+                  : "Credenciales (opcional: usuario:contraseña o token)"}
+            </Label>
+            <div className="flex gap-2">
+              <Input
+                type="password"
+                value={apiKey}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setApiKey(e.target.value)}
+                placeholder={`Introduce tu API key de ${provider.label}`}
+                className="flex-1"
+              />
+              <Button onClick={saveApiKey} className="whitespace-nowrap" variant="default">
+                Guardar
+              </Button>
+            </div>
+            <p className="text-sm text-gray-500 mt-1">
+              La API key se guarda localmente en tu navegador.
+            </p>
           </div>
-          <p className="text-sm text-gray-500 mt-1">
-            La API key se guarda localmente en tu navegador.
-          </p>
+        )}
+
+        {/* Gemini panels stay mounted while hidden so their form state survives a provider switch */}
+        <div className={isGemini ? "grid gap-4" : "hidden"}>
+          <EndpointProfilesPanel value={endpoint} onChange={onEndpointChange} disabled={loading} />
+
+          <ModelSelector
+            apiKey={savedApiKey}
+            endpoint={endpoint}
+            fetch={createRecordingFetch(secretVariants(savedApiKey), recordExchange)}
+            value={model}
+            onChange={onModelChange}
+            disabled={loading}
+          />
         </div>
 
-        <div>
+        {!isGemini && (
+          <ProviderSettingsPanel
+            provider={providerId}
+            value={providerSettings}
+            onChange={onProviderSettingsChange}
+            disabled={loading}
+          />
+        )}
+
+        <div className={isGemini ? "" : "hidden"}>
+          <RawContentsPanel
+            enabled={rawMode}
+            onEnabledChange={setRawMode}
+            onChange={setRawRequest}
+            prompt={prompt}
+            disabled={loading}
+          />
+        </div>
+
+        <div className={rawActive ? "hidden" : ""}>
           <Label className="mb-1">Prompt</Label>
           <textarea
             value={prompt}
@@ -278,105 +910,161 @@ const GeminiImageGenerator: React.FC = () => {
           />
         </div>
 
-        <div>
-          <Label className="mb-1">Imagen de entrada (opcional)</Label>
-          <div className="flex items-center gap-2">
-            <input
-              type="file"
-              accept="image/*"
-              onChange={(e) => {
-                const file = e.target.files?.[0];
-                if (file) {
-                  onSourceFileChange(file);
-                } else {
-                  clearSourceImage();
-                }
-              }}
-              className="text-sm"
+        {capabilities.imageEdit && !rawActive && (
+          <div>
+            <Label className="mb-1">
+              {capabilities.multipleInputs ? "Imágenes de entrada" : "Imagen de entrada"}
+              {capabilities.textToImage ? " (opcional)" : " (obligatoria)"}
+            </Label>
+            <div className="flex items-center gap-2">
+              <input
+                type="file"
+                // Some systems leave HEIC out of image/*; the format is checked on load
+                accept="image/*,.heic,.heif"
+                multiple={capabilities.multipleInputs}
+                onChange={(e) => {
+                  onSourceFilesAdd(Array.from(e.target.files ?? []));
+                  // Allow picking the same file again after removing it
+                  e.target.value = "";
+                }}
+                disabled={loading}
+                className="text-sm"
+              />
+              {sourceImages.length > 0 && (
+                <Button onClick={clearSourceImages} variant="ghost" disabled={loading}>
+                  {sourceImages.length > 1 ? "Eliminar imágenes" : "Eliminar imagen"}
+                </Button>
+              )}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              También puedes arrastrarlas (o su URL) a cualquier parte del generador o pegarlas con
+              Ctrl+V.
+            </p>
+            <ImageUrlImport
+              onImport={importImageUrl}
+              onCancel={cancelImports}
+              viaProxy={!!imageProxy}
+              disabled={loading}
             />
-            {sourceFile && (
-              <Button onClick={clearSourceImage} variant="ghost">
-                Eliminar imagen
-              </Button>
-            )}
-          </div>
-          {sourcePreviewUrl ? (
-            <div className="mt-2 flex items-start gap-4">
-              <img
-                src={sourcePreviewUrl}
-                alt="Preview entrada"
-                className="w-40 h-auto rounded-md border"
+            <div className="mt-2">
+              <PreprocessSettingsPanel
+                value={preprocess}
+                onChange={onPreprocessChange}
+                onApply={sourceImages.length > 0 ? reprocessSourceImages : undefined}
+                disabled={loading}
               />
-              <div className="text-sm text-gray-600">
-                <div><strong>{sourceFile?.name}</strong></div>
-                <div>{sourceMime}</div>
-                <div className="mt-2">
-                  <Button
-                    onClick={() => {
-                      // descargar la imagen de entrada
-                      if (!sourcePreviewUrl) return;
-                      const a = document.createElement("a");
-                      a.href = sourcePreviewUrl;
-                      a.download = sourceFile?.name ?? "source-image";
-                      a.click();
-                    }}
-                    variant="secondary"
-                  >
-                    Descargar entrada
-                  </Button>
-                </div>
-              </div>
             </div>
-          ) : (
-            <p className="text-sm text-gray-500 mt-2">No hay imagen de entrada seleccionada.</p>
-          )}
+            {sourceImages.length > 0 ? (
+              <>
+                <SourceImageList
+                  images={sourceImages}
+                  onChange={onSourceImagesChange}
+                  requestBytes={isGemini ? inlineRequestBytes : undefined}
+                  requestLimit={isGemini ? requestSizeLimit(endpoint) : undefined}
+                  disabled={loading}
+                />
+                {sourceImages.length > 1 && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    Se envían en este orden; las funciones indicadas se añaden al prompt.
+                  </p>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-gray-500 mt-2">No hay imagen de entrada seleccionada.</p>
+            )}
+          </div>
+        )}
+
+        <div className={isGemini ? "grid gap-4" : "hidden"}>
+          <GenerationSettingsPanel onChange={setGenerationSettings} disabled={loading} />
+
+          <SafetySettingsPanel
+            value={safetyThresholds}
+            onChange={setSafetyThresholds}
+            disabled={loading}
+          />
         </div>
 
-        <div className="flex items-center gap-3">
-          <Button onClick={handleGenerate} disabled={loading} variant="default">
-            {loading ? "Generando..." : "Generar imagen"}
+        <div className="flex flex-wrap items-center gap-3">
+          <Button
+            onClick={handleGenerate}
+            disabled={loading || (isGemini && !generationSettings) || (rawActive && !rawRequest)}
+            variant="default"
+          >
+            {loading ? `Generando... ${formatElapsed(elapsedMs)}` : "Generar imagen"}
           </Button>
 
+          {loading && (
+            <Button onClick={cancelGenerate} variant="destructive">
+              Cancelar
+            </Button>
+          )}
+
           <Button
             onClick={() => {
               clearGeneratedImage();
             }}
-            disabled={!generatedImageUrl || loading}
+            disabled={generatedEntries.length === 0 || loading}
             variant="ghost"
           >
             Limpiar resultado
           </Button>
+
+          <div className="flex items-center gap-2 ml-auto">
+            <Label htmlFor="gemini-timeout" className="whitespace-nowrap">
+              Tiempo límite (s)
+            </Label>
+            <Input
+              id="gemini-timeout"
+              type="number"
+              min={5}
+              value={timeoutSeconds}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setTimeoutSeconds(Number(e.target.value))
+              }
+              disabled={loading}
+              className="w-20"
+            />
+            <Label htmlFor="gemini-retries">Reintentos</Label>
+            <Input
+              id="gemini-retries"
+              type="number"
+              min={0}
+              max={10}
+              value={maxRetries}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setMaxRetries(Math.min(10, Number(e.target.value)))
+              }
+              disabled={loading}
+              className="w-16"
+            />
+            {capabilities.streaming && (
+              <>
+                <Switch
+                  id="gemini-streaming"
+                  checked={streaming}
+                  onCheckedChange={setStreaming}
+                  disabled={loading}
+                />
+                <Label htmlFor="gemini-streaming">Streaming</Label>
+              </>
+            )}
+          </div>
         </div>
 
         <div>
           <Label>Vista previa</Label>
           <div className="mt-2">
-            {generatedImageUrl ? (
-              <div className="flex flex-col sm:flex-row gap-4 items-start">
-                <img
-                  src={generatedImageUrl}
-                  alt="Vista previa generada"
-                  className="max-w-full w-80 h-auto rounded-md border"
-                />
-                <div className="flex flex-col gap-2">
-                  <a
-                    href={generatedImageUrl}
-                    download="gemini-image.png"
-                    className="inline-block"
-                  >
-                    <Button variant="secondary">Descargar imagen</Button>
-                  </a>
-                  <Button
-                    onClick={() => {
-                      // abrir en nueva pestaña
-                      window.open(generatedImageUrl, "_blank");
-                    }}
-                    variant="outline"
-                  >
-                    Abrir en nueva pestaña
-                  </Button>
+            {loading && streamingActive ? (
+              streamEntries.length > 0 ? (
+                <GeneratedResultGrid entries={streamEntries} />
+              ) : (
+                <div className="p-6 rounded-md border border-dashed text-sm text-gray-500">
+                  Esperando la primera respuesta... {formatElapsed(elapsedMs)}
                 </div>
-              </div>
+              )
+            ) : generatedEntries.length > 0 ? (
+              <GeneratedResultGrid entries={generatedEntries} />
             ) : (
               <div className="p-6 rounded-md border border-dashed text-sm text-gray-500">
                 No hay imagen generada todavía.
@@ -384,6 +1072,8 @@ const GeminiImageGenerator: React.FC = () => {
             )}
           </div>
         </div>
+
+        {exchanges.length > 0 && <RequestInspectorPanel exchanges={exchanges} />}
       </div>
     </div>
   );
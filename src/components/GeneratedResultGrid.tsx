@@ -0,0 +1,91 @@
+import React from "react";
+import { Button } from "./ui/button";
+import { extensionForMime } from "../lib/image";
+import type { GenerationMetadata } from "../lib/gemini/types";
+
+export interface GeneratedEntry {
+  id: string;
+  candidateIndex: number;
+  imageUrl: string | null;
+  mimeType: string | null;
+  texts: string[];
+  finishReason?: string;
+  metadata: GenerationMetadata;
+}
+
+interface GeneratedResultGridProps {
+  entries: GeneratedEntry[];
+}
+
+const GeneratedResultGrid: React.FC<GeneratedResultGridProps> = ({ entries }) => {
+  const multipleCandidates = new Set(entries.map((e) => e.candidateIndex)).size > 1;
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      {entries.map((entry, i) => (
+        <div key={entry.id} className="flex flex-col gap-2 rounded-md border p-3">
+          {multipleCandidates && (
+            <div className="text-xs text-gray-500">Candidato {entry.candidateIndex + 1}</div>
+          )}
+          {entry.imageUrl && (
+            <>
+              <img
+                src={entry.imageUrl}
+                alt={`Imagen generada ${i + 1}`}
+                className="max-w-full h-auto rounded-md border"
+              />
+              <div className="flex flex-wrap items-center gap-2">
+                <a
+                  href={entry.imageUrl}
+                  download={`gemini-image-${i + 1}.${extensionForMime(entry.mimeType ?? "image/png")}`}
+                  className="inline-block"
+                >
+                  <Button variant="secondary" size="sm">
+                    Descargar imagen
+                  </Button>
+                </a>
+                <Button
+                  onClick={() => {
+                    // abrir en nueva pestaña
+                    window.open(entry.imageUrl ?? undefined, "_blank");
+                  }}
+                  variant="outline"
+                  size="sm"
+                >
+                  Abrir en nueva pestaña
+                </Button>
+                {entry.mimeType && <span className="text-xs text-gray-500">{entry.mimeType}</span>}
+              </div>
+            </>
+          )}
+          {entry.texts.map((text, j) => (
+            <p key={j} className="text-sm text-gray-700 whitespace-pre-wrap">
+              {text}
+            </p>
+          ))}
+          <div className="text-xs text-gray-500">
+            {entry.metadata.model}
+            {entry.metadata.modelVersion && entry.metadata.modelVersion !== entry.metadata.model
+              ? ` · ${entry.metadata.modelVersion}`
+              : null}
+          </div>
+          {entry.finishReason && entry.finishReason !== "STOP" && (
+            <div className="text-xs text-amber-700">finishReason: {entry.finishReason}</div>
+          )}
+          <details className="text-xs text-gray-500">
+            <summary className="cursor-pointer">
+              Metadatos
+              {entry.metadata.safetyProfile !== undefined &&
+                ` · Seguridad: ${entry.metadata.safetyProfile ?? "personalizada"}`}
+            </summary>
+            <pre className="mt-1 overflow-x-auto whitespace-pre-wrap">
+              {JSON.stringify(entry.metadata, null, 2)}
+            </pre>
+          </details>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default GeneratedResultGrid;
@@ -0,0 +1,180 @@
+import React from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { RotateCcw } from "lucide-react";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "./ui/accordion";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "./ui/form";
+import { Input } from "./ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import {
+  ASPECT_RATIOS,
+  DEFAULT_GENERATION_SETTINGS,
+  generationSettingsSchema,
+  RESPONSE_MODALITIES,
+  type GenerationSettings,
+} from "../lib/gemini/generation-config";
+
+interface GenerationSettingsPanelProps {
+  /** Receives the settings after every change, or null while the form is invalid. */
+  onChange: (settings: GenerationSettings | null) => void;
+  disabled?: boolean;
+}
+
+type SettingsField = keyof GenerationSettings;
+type NumberField = "temperature" | "topP" | "topK" | "candidateCount" | "maxOutputTokens";
+
+const NUMBER_FIELDS: { name: NumberField; label: string; step: number }[] = [
+  { name: "temperature", label: "Temperature", step: 0.05 },
+  { name: "topP", label: "Top P", step: 0.01 },
+  { name: "topK", label: "Top K", step: 1 },
+  { name: "candidateCount", label: "Candidatos", step: 1 },
+  { name: "maxOutputTokens", label: "Máx. tokens de salida", step: 256 },
+];
+
+const GenerationSettingsPanel: React.FC<GenerationSettingsPanelProps> = ({
+  onChange,
+  disabled,
+}) => {
+  const form = useForm<GenerationSettings>({
+    resolver: zodResolver(generationSettingsSchema),
+    defaultValues: DEFAULT_GENERATION_SETTINGS,
+    mode: "onChange",
+  });
+
+  React.useEffect(() => {
+    const subscription = form.watch((values) => {
+      const parsed = generationSettingsSchema.safeParse(values);
+      onChange(parsed.success ? parsed.data : null);
+    });
+    return () => subscription.unsubscribe();
+  }, [form, onChange]);
+
+  const resetButton = (name: SettingsField) => (
+    <Button
+      type="button"
+      variant="ghost"
+      size="icon"
+      className="h-6 w-6"
+      title="Restablecer valor por defecto"
+      disabled={disabled}
+      onClick={() =>
+        form.setValue(name, DEFAULT_GENERATION_SETTINGS[name], {
+          shouldDirty: true,
+          shouldValidate: true,
+        })
+      }
+    >
+      <RotateCcw className="h-3 w-3" />
+    </Button>
+  );
+
+  return (
+    <Accordion type="single" collapsible>
+      <AccordionItem value="generation-settings">
+        <AccordionTrigger>Ajustes de generación</AccordionTrigger>
+        <AccordionContent>
+          <Form {...form}>
+            <form className="grid gap-4 sm:grid-cols-2" onSubmit={(e) => e.preventDefault()}>
+              {NUMBER_FIELDS.map(({ name, label, step }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <div className="flex items-center justify-between">
+                        <FormLabel>{label}</FormLabel>
+                        {resetButton(name)}
+                      </div>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step={step}
+                          disabled={disabled}
+                          name={field.name}
+                          ref={field.ref}
+                          onBlur={field.onBlur}
+                          value={Number.isNaN(field.value) ? "" : field.value}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                            field.onChange(e.target.valueAsNumber)
+                          }
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+
+              <FormField
+                control={form.control}
+                name="aspectRatio"
+                render={({ field }) => (
+                  <FormItem>
+                    <div className="flex items-center justify-between">
+                      <FormLabel>Relación de aspecto</FormLabel>
+                      {resetButton("aspectRatio")}
+                    </div>
+                    <Select value={field.value} onValueChange={field.onChange} disabled={disabled}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {ASPECT_RATIOS.map((ratio) => (
+                          <SelectItem key={ratio} value={ratio}>
+                            {ratio === "auto" ? "Automática" : ratio}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="responseModalities"
+                render={({ field }) => (
+                  <FormItem className="sm:col-span-2">
+                    <div className="flex items-center justify-between">
+                      <FormLabel>Modalidades de respuesta</FormLabel>
+                      {resetButton("responseModalities")}
+                    </div>
+                    <div className="flex gap-4">
+                      {RESPONSE_MODALITIES.map((modality) => (
+                        <label key={modality} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(modality)}
+                            disabled={disabled}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked
+                                  ? RESPONSE_MODALITIES.filter(
+                                      (m) => m === modality || field.value.includes(m)
+                                    )
+                                  : field.value.filter((m) => m !== modality)
+                              )
+                            }
+                          />
+                          {modality}
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </form>
+          </Form>
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+};
+
+export default GenerationSettingsPanel;
@@ -0,0 +1,84 @@
+import React from "react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+
+interface ImageUrlImportProps {
+  /** Downloads and loads the image; resolves to false when it could not. */
+  onImport: (url: string) => Promise<boolean>;
+  /** Aborts the download in progress. */
+  onCancel: () => void;
+  /** Whether downloads go through the proxy endpoint instead of the browser. */
+  viaProxy: boolean;
+  disabled?: boolean;
+}
+
+function isHttpUrl(text: string) {
+  try {
+    return ["http:", "https:"].includes(new URL(text).protocol);
+  } catch {
+    return false;
+  }
+}
+
+const ImageUrlImport: React.FC<ImageUrlImportProps> = ({
+  onImport,
+  onCancel,
+  viaProxy,
+  disabled,
+}) => {
+  const [url, setUrl] = React.useState("");
+  const [busy, setBusy] = React.useState(false);
+
+  const trimmed = url.trim();
+  const valid = isHttpUrl(trimmed);
+
+  const submit = async () => {
+    if (!valid || busy) return;
+    setBusy(true);
+    try {
+      if (await onImport(trimmed)) setUrl("");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="mt-2">
+      <div className="flex items-center gap-2">
+        <Input
+          type="url"
+          value={url}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setUrl(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              submit();
+            }
+          }}
+          placeholder="https://... (imagen desde URL)"
+          disabled={disabled || busy}
+          className="h-9"
+        />
+        {busy ? (
+          <Button variant="ghost" size="sm" onClick={onCancel}>
+            Cancelar
+          </Button>
+        ) : (
+          <Button variant="secondary" size="sm" onClick={submit} disabled={disabled || !valid}>
+            Importar
+          </Button>
+        )}
+      </div>
+      {trimmed && !valid && (
+        <p className="text-xs text-destructive mt-1">Introduce una URL http(s) completa.</p>
+      )}
+      <p className="text-xs text-gray-500 mt-1">
+        {viaProxy
+          ? "Se descarga a través del proxy, que admite cualquier servidor."
+          : "Se descarga desde el navegador: el servidor debe permitirlo (CORS). Con un endpoint de tipo proxy se admite cualquiera."}
+      </p>
+    </div>
+  );
+};
+
+export default ImageUrlImport;
@@ -0,0 +1,117 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { RefreshCw } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { DEFAULT_MODEL } from "../lib/gemini/client";
+import { explainApiError, GeminiApiError } from "../lib/gemini/errors";
+import { listImageModels, modelId } from "../lib/gemini/models";
+import type { EndpointProfile } from "../lib/gemini/endpoints";
+
+interface ModelSelectorProps {
+  /** Key used to list models; listing is skipped while empty. */
+  apiKey: string;
+  endpoint: EndpointProfile;
+  /** Sends the models.list requests, so the inspector can record them. */
+  fetch?: typeof fetch;
+  value: string;
+  onChange: (model: string) => void;
+  disabled?: boolean;
+}
+
+const ModelSelector: React.FC<ModelSelectorProps> = ({
+  apiKey,
+  endpoint,
+  fetch: fetchFn,
+  value,
+  onChange,
+  disabled,
+}) => {
+  // Keyless endpoints (local mocks) can be listed without a key. Vertex AI's
+  // publisher model catalogue is not filtered by output modality and the proxy
+  // only forwards generation, so for those the model ID is typed in instead.
+  const typedIn = endpoint.kind !== "gemini";
+  const canList = !typedIn && (!!apiKey || endpoint.auth === "none");
+  const { data, error, isFetching, refetch } = useQuery({
+    queryKey: ["gemini-image-models", endpoint, apiKey],
+    queryFn: ({ signal }) => listImageModels({ apiKey, endpoint, signal, fetch: fetchFn }),
+    enabled: canList,
+    staleTime: 10 * 60 * 1000,
+    retry: false,
+  });
+
+  // Always offer the default and the current selection, even if listing failed
+  const options = React.useMemo(() => {
+    const byId = new Map<string, string>();
+    for (const model of data ?? []) {
+      byId.set(modelId(model), model.displayName ?? modelId(model));
+    }
+    for (const id of [DEFAULT_MODEL, value]) {
+      if (!byId.has(id)) byId.set(id, id);
+    }
+    return [...byId.entries()].sort(([a], [b]) => a.localeCompare(b));
+  }, [data, value]);
+
+  if (typedIn) {
+    return (
+      <div>
+        <Label className="mb-1">Modelo</Label>
+        <Input
+          value={value}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange(e.target.value.trim())}
+          placeholder={DEFAULT_MODEL}
+          disabled={disabled}
+        />
+        <p className="text-sm text-gray-500 mt-1">
+          {endpoint.kind === "vertex"
+            ? `ID del modelo publicado por Google en Vertex AI, p. ej. ${DEFAULT_MODEL}.`
+            : `ID del modelo que el proxy reenvía a Gemini, p. ej. ${DEFAULT_MODEL}.`}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <Label className="mb-1">Modelo</Label>
+      <div className="flex gap-2">
+        <Select value={value} onValueChange={onChange} disabled={disabled}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="Selecciona un modelo" />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map(([id, label]) => (
+              <SelectItem key={id} value={id}>
+                {label === id ? id : `${label} (${id})`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          onClick={() => refetch()}
+          disabled={!canList || isFetching}
+          variant="outline"
+          size="icon"
+          title="Actualizar lista de modelos"
+        >
+          <RefreshCw className={isFetching ? "h-4 w-4 animate-spin" : "h-4 w-4"} />
+        </Button>
+      </div>
+      <p className="text-sm text-gray-500 mt-1">
+        {!canList
+          ? "Guarda la API key para cargar los modelos disponibles."
+          : error
+            ? `No se pudo cargar la lista de modelos: ${
+                error instanceof GeminiApiError ? explainApiError(error).title : error.message
+              }`
+            : data
+              ? `${data.length} modelos con salida de imagen disponibles.`
+              : "Cargando modelos..."}
+      </p>
+    </div>
+  );
+};
+
+export default ModelSelector;
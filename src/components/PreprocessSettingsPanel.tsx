@@ -0,0 +1,153 @@
+import React from "react";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "./ui/accordion";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Switch } from "./ui/switch";
+import {
+  PREPROCESS_FORMAT_LABELS,
+  PREPROCESS_FORMATS,
+  preprocessSettingsSchema,
+  type PreprocessSettings,
+} from "../lib/preprocess";
+
+interface PreprocessSettingsPanelProps {
+  value: PreprocessSettings;
+  onChange: (settings: PreprocessSettings) => void;
+  /** Re-runs the pipeline on the images already loaded; hidden when there are none. */
+  onApply?: () => void;
+  disabled?: boolean;
+}
+
+const PreprocessSettingsPanel: React.FC<PreprocessSettingsPanelProps> = ({
+  value,
+  onChange,
+  onApply,
+  disabled,
+}) => {
+  const parsed = preprocessSettingsSchema.safeParse(value);
+  const update = (patch: Partial<PreprocessSettings>) => onChange({ ...value, ...patch });
+  const fieldsDisabled = disabled || !value.enabled;
+
+  return (
+    <Accordion type="single" collapsible>
+      <AccordionItem value="preprocess-settings">
+        <AccordionTrigger>
+          Preprocesado de la entrada
+          <span className="ml-auto mr-2 text-sm font-normal text-gray-500">
+            {value.enabled
+              ? `${PREPROCESS_FORMAT_LABELS[value.format]} ${Math.round(value.quality * 100)} %` +
+                (value.maxEdge > 0 ? ` · ${value.maxEdge} px` : "")
+              : "desactivado"}
+          </span>
+        </AccordionTrigger>
+        <AccordionContent>
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="sm:col-span-2 flex items-center gap-2">
+              <Switch
+                id="preprocess-enabled"
+                checked={value.enabled}
+                onCheckedChange={(enabled) => update({ enabled })}
+                disabled={disabled}
+              />
+              <Label htmlFor="preprocess-enabled">
+                Orientar según EXIF, quitar metadatos, reducir y recomprimir las imágenes al
+                cargarlas
+              </Label>
+            </div>
+            <div>
+              <Label className="mb-1">Lado máximo (px, 0 sin límite)</Label>
+              <Input
+                type="number"
+                step={256}
+                min={0}
+                value={value.maxEdge}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  update({ maxEdge: Number(e.target.value) })
+                }
+                disabled={fieldsDisabled}
+              />
+            </div>
+            <div>
+              <Label className="mb-1">Formato</Label>
+              <Select
+                value={value.format}
+                onValueChange={(format) =>
+                  update({ format: format as PreprocessSettings["format"] })
+                }
+                disabled={fieldsDisabled}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PREPROCESS_FORMATS.map((format) => (
+                    <SelectItem key={format} value={format}>
+                      {PREPROCESS_FORMAT_LABELS[format]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="mb-1">Calidad (0.1-1)</Label>
+              <Input
+                type="number"
+                step={0.05}
+                min={0.1}
+                max={1}
+                value={value.quality}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  update({ quality: Number(e.target.value) })
+                }
+                disabled={fieldsDisabled}
+              />
+            </div>
+            <div>
+              <Label className="mb-1">Fondo para la transparencia</Label>
+              <div className="flex items-center gap-2 h-10">
+                <Checkbox
+                  id="preprocess-flatten"
+                  checked={value.flattenAlpha || value.format === "image/jpeg"}
+                  onCheckedChange={(checked) => update({ flattenAlpha: checked === true })}
+                  // JPEG has no alpha channel: it is always flattened
+                  disabled={fieldsDisabled || value.format === "image/jpeg"}
+                />
+                <Label htmlFor="preprocess-flatten" className="font-normal">
+                  Aplanar sobre
+                </Label>
+                <input
+                  type="color"
+                  value={value.background}
+                  onChange={(e) => update({ background: e.target.value })}
+                  disabled={fieldsDisabled}
+                  className="h-8 w-12 rounded border"
+                />
+              </div>
+            </div>
+            {onApply && (
+              <div className="sm:col-span-2">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={onApply}
+                  // Also with the pipeline off, which puts the originals back
+                  disabled={disabled || !parsed.success}
+                >
+                  Aplicar a las imágenes cargadas
+                </Button>
+              </div>
+            )}
+          </div>
+          {!parsed.success && (
+            <p className="mt-2 text-sm text-destructive">{parsed.error.issues[0]?.message}</p>
+          )}
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+};
+
+export default PreprocessSettingsPanel;
@@ -0,0 +1,231 @@
+import React from "react";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "./ui/accordion";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Textarea } from "./ui/textarea";
+import {
+  OPENAI_IMAGE_QUALITIES,
+  OPENAI_IMAGE_SIZES,
+  type OpenAISettings,
+} from "../lib/providers/openai";
+import type { StableDiffusionSettings } from "../lib/providers/stable-diffusion";
+import {
+  DEMO_FAILURE_LABELS,
+  DEMO_FAILURES,
+  type DemoFailure,
+  type DemoSettings,
+} from "../lib/providers/demo";
+import {
+  EXTERNAL_PROVIDER_SCHEMAS,
+  IMAGE_PROVIDERS,
+  type ExternalProviderSettings,
+} from "../lib/providers/registry";
+
+type ExternalProviderId = keyof ExternalProviderSettings;
+
+interface ProviderSettingsPanelProps {
+  provider: ExternalProviderId;
+  value: ExternalProviderSettings;
+  onChange: (settings: ExternalProviderSettings) => void;
+  disabled?: boolean;
+}
+
+type SdNumberField =
+  "width" | "height" | "steps" | "cfgScale" | "denoisingStrength" | "seed" | "count";
+
+const SD_NUMBER_FIELDS: { name: SdNumberField; label: string; step: number }[] = [
+  { name: "width", label: "Ancho (px)", step: 64 },
+  { name: "height", label: "Alto (px)", step: 64 },
+  { name: "steps", label: "Pasos", step: 1 },
+  { name: "cfgScale", label: "CFG scale", step: 0.5 },
+  { name: "denoisingStrength", label: "Denoising (img2img)", step: 0.05 },
+  { name: "seed", label: "Semilla (-1 aleatoria)", step: 1 },
+  { name: "count", label: "Imágenes", step: 1 },
+];
+
+type DemoNumberField = "latencyMs" | "errorRate" | "candidateCount" | "imagesPerCandidate";
+
+const DEMO_NUMBER_FIELDS: { name: DemoNumberField; label: string; step: number }[] = [
+  { name: "latencyMs", label: "Latencia (ms)", step: 250 },
+  { name: "errorRate", label: "Probabilidad de fallo (0-1)", step: 0.1 },
+  { name: "candidateCount", label: "Candidatos", step: 1 },
+  { name: "imagesPerCandidate", label: "Imágenes por candidato", step: 1 },
+];
+
+const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({
+  provider,
+  value,
+  onChange,
+  disabled,
+}) => {
+  const settings = value[provider];
+  const parsed = EXTERNAL_PROVIDER_SCHEMAS[provider].safeParse(settings);
+
+  const update = (
+    patch: Partial<OpenAISettings> | Partial<StableDiffusionSettings> | Partial<DemoSettings>
+  ) => onChange({ ...value, [provider]: { ...settings, ...patch } });
+
+  const textField = (
+    name: "baseUrl" | "model",
+    current: string,
+    label: string,
+    placeholder: string
+  ) => (
+    <div className="sm:col-span-2">
+      <Label className="mb-1">{label}</Label>
+      <Input
+        value={current}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ [name]: e.target.value })}
+        placeholder={placeholder}
+        disabled={disabled}
+      />
+    </div>
+  );
+
+  const numberField = (name: string, current: number, label: string, step: number) => (
+    <div key={name}>
+      <Label className="mb-1">{label}</Label>
+      <Input
+        type="number"
+        step={step}
+        value={current}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+          update({ [name]: Number(e.target.value) })
+        }
+        disabled={disabled}
+      />
+    </div>
+  );
+
+  return (
+    <Accordion type="single" collapsible>
+      <AccordionItem value="provider-settings">
+        <AccordionTrigger>
+          Ajustes de {IMAGE_PROVIDERS[provider].label}
+          <span className="ml-auto mr-2 text-sm font-normal text-gray-500">
+            {settings.model || "checkpoint actual"}
+          </span>
+        </AccordionTrigger>
+        <AccordionContent>
+          <div className="grid gap-3 sm:grid-cols-2">
+            {provider === "openai" ? (
+              <>
+                {textField(
+                  "baseUrl",
+                  value.openai.baseUrl,
+                  "URL base (sin /v1)",
+                  "https://api.openai.com"
+                )}
+                {textField("model", value.openai.model, "Modelo", "gpt-image-1")}
+                <div>
+                  <Label className="mb-1">Tamaño</Label>
+                  <Select
+                    value={value.openai.size}
+                    onValueChange={(size) => update({ size: size as OpenAISettings["size"] })}
+                    disabled={disabled}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {OPENAI_IMAGE_SIZES.map((size) => (
+                        <SelectItem key={size} value={size}>
+                          {size}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="mb-1">Calidad</Label>
+                  <Select
+                    value={value.openai.quality}
+                    onValueChange={(quality) =>
+                      update({ quality: quality as OpenAISettings["quality"] })
+                    }
+                    disabled={disabled}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {OPENAI_IMAGE_QUALITIES.map((quality) => (
+                        <SelectItem key={quality} value={quality}>
+                          {quality}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {numberField("count", value.openai.count, "Imágenes", 1)}
+              </>
+            ) : provider === "stable-diffusion" ? (
+              <>
+                {textField(
+                  "baseUrl",
+                  value["stable-diffusion"].baseUrl,
+                  "URL del servidor",
+                  "http://127.0.0.1:7860"
+                )}
+                {textField(
+                  "model",
+                  value["stable-diffusion"].model,
+                  "Checkpoint (vacío: el cargado)",
+                  "sd_xl_base_1.0.safetensors"
+                )}
+                <div className="sm:col-span-2">
+                  <Label className="mb-1">Prompt negativo</Label>
+                  <Textarea
+                    value={value["stable-diffusion"].negativePrompt}
+                    onChange={(e) => update({ negativePrompt: e.target.value })}
+                    rows={2}
+                    disabled={disabled}
+                  />
+                </div>
+                {SD_NUMBER_FIELDS.map(({ name, label, step }) =>
+                  numberField(name, value["stable-diffusion"][name], label, step)
+                )}
+              </>
+            ) : (
+              <>
+                {textField("model", value.demo.model, "Modelo simulado", "demo-image")}
+                <div className="sm:col-span-2">
+                  <Label className="mb-1">Fallo simulado</Label>
+                  <Select
+                    value={value.demo.failure}
+                    onValueChange={(failure) => update({ failure: failure as DemoFailure })}
+                    disabled={disabled}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DEMO_FAILURES.map((failure) => (
+                        <SelectItem key={failure} value={failure}>
+                          {DEMO_FAILURE_LABELS[failure]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {DEMO_NUMBER_FIELDS.map(({ name, label, step }) =>
+                  numberField(name, value.demo[name], label, step)
+                )}
+                <p className="sm:col-span-2 text-sm text-gray-500">
+                  No se hace ninguna petición de red: las imágenes se dibujan en el navegador a
+                  partir del prompt y siempre salen iguales para la misma entrada.
+                </p>
+              </>
+            )}
+          </div>
+          {!parsed.success && (
+            <p className="mt-2 text-sm text-destructive">{parsed.error.issues[0]?.message}</p>
+          )}
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+};
+
+export default ProviderSettingsPanel;
@@ -0,0 +1,223 @@
+import React from "react";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "./ui/accordion";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import { Textarea } from "./ui/textarea";
+import { cn } from "../lib/utils";
+import { bytesToBase64 } from "../lib/image";
+import { ensureSupportedImage, UnsupportedImageError } from "../lib/input-formats";
+import { geminiProvider } from "../lib/providers/gemini";
+import {
+  appendInlineImages,
+  completePartKey,
+  parseRawContents,
+  rawContentsFromPrompt,
+  type PartCompletion,
+  type RawRequest,
+} from "../lib/gemini/raw-contents";
+import { imageFiles } from "../lib/image-sources";
+import { showError } from "../utils/toast";
+
+interface RawContentsPanelProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  /** Receives the request after every change, or null while the JSON is invalid. */
+  onChange: (request: RawRequest | null) => void;
+  /** Seeds the editor the first time the mode is turned on. */
+  prompt: string;
+  disabled?: boolean;
+}
+
+async function readInlineImage(dropped: File) {
+  const file = await ensureSupportedImage(
+    dropped,
+    geminiProvider.capabilities.inputFormats,
+    geminiProvider.label
+  );
+  return { mimeType: file.type, data: bytesToBase64(new Uint8Array(await file.arrayBuffer())) };
+}
+
+const RawContentsPanel: React.FC<RawContentsPanelProps> = ({
+  enabled,
+  onEnabledChange,
+  onChange,
+  prompt,
+  disabled,
+}) => {
+  const [text, setText] = React.useState("");
+  const [systemText, setSystemText] = React.useState("");
+  const [completion, setCompletion] = React.useState<ReturnType<typeof completePartKey>>(null);
+  const textareaRef = React.useRef<HTMLTextAreaElement>(null);
+
+  const parsed = React.useMemo(() => parseRawContents(text), [text]);
+
+  React.useEffect(() => {
+    onChange(
+      parsed.contents
+        ? {
+            contents: parsed.contents,
+            systemInstruction: systemText.trim() ? { parts: [{ text: systemText }] } : undefined,
+          }
+        : null
+    );
+  }, [parsed, systemText, onChange]);
+
+  const toggle = (on: boolean) => {
+    if (on && !text) setText(rawContentsFromPrompt(prompt));
+    onEnabledChange(on);
+  };
+
+  const updateCompletion = (el: HTMLTextAreaElement) => {
+    setCompletion(
+      el.selectionStart === el.selectionEnd ? completePartKey(el.value, el.selectionStart) : null
+    );
+  };
+
+  const applyCompletion = (option: PartCompletion) => {
+    const el = textareaRef.current;
+    if (!el || !completion) return;
+    setText(text.slice(0, completion.start) + option.insert + text.slice(el.selectionStart));
+    setCompletion(null);
+    // Leave the caret inside the empty string the user fills in next
+    const caret = completion.start + option.insert.lastIndexOf('""') + 1;
+    requestAnimationFrame(() => {
+      el.focus();
+      el.setSelectionRange(caret, caret);
+    });
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!completion) return;
+    if (e.key === "Tab") {
+      e.preventDefault();
+      applyCompletion(completion.options[0]);
+    } else if (e.key === "Escape") {
+      setCompletion(null);
+    }
+  };
+
+  const onDrop = async (e: React.DragEvent<HTMLTextAreaElement>) => {
+    const files = imageFiles(e.dataTransfer);
+    // Dropped text is inserted by the browser as usual
+    if (files.length === 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    try {
+      const next = appendInlineImages(text, await Promise.all(files.map(readInlineImage)));
+      if (next === null) {
+        showError("Corrige el JSON antes de soltar imágenes: se añaden a la última entrada.");
+        return;
+      }
+      setText(next);
+    } catch (error) {
+      showError(
+        error instanceof UnsupportedImageError
+          ? error.message
+          : "No se pudo leer la imagen soltada."
+      );
+    }
+  };
+
+  const summary = parsed.contents
+    ? (() => {
+        const parts = parsed.contents.flatMap((c) => c.parts);
+        const images = parts.filter((p) => "inlineData" in p || "fileData" in p).length;
+        return `${parsed.contents.length} contenidos · ${parts.length} partes · ${images} imágenes`;
+      })()
+    : null;
+
+  return (
+    <Accordion type="single" collapsible>
+      <AccordionItem value="raw-contents">
+        <AccordionTrigger>
+          Modo avanzado (contents en JSON)
+          <span className="ml-auto mr-2 text-sm font-normal text-gray-500">
+            {enabled ? "activado" : "desactivado"}
+          </span>
+        </AccordionTrigger>
+        <AccordionContent>
+          <div className="grid gap-3">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="raw-contents-enabled"
+                checked={enabled}
+                onCheckedChange={toggle}
+                disabled={disabled}
+              />
+              <Label htmlFor="raw-contents-enabled">
+                Enviar estos contents en lugar del prompt y la imagen de entrada
+              </Label>
+            </div>
+
+            <div>
+              <Label className="mb-1">Instrucción del sistema (systemInstruction, opcional)</Label>
+              <Textarea
+                value={systemText}
+                onChange={(e) => setSystemText(e.target.value)}
+                rows={3}
+                disabled={disabled || !enabled}
+              />
+            </div>
+
+            <div>
+              <Label className="mb-1">contents</Label>
+              <Textarea
+                ref={textareaRef}
+                value={text}
+                onChange={(e) => {
+                  setText(e.target.value);
+                  updateCompletion(e.target);
+                }}
+                onSelect={(e) => updateCompletion(e.currentTarget)}
+                onKeyDown={onKeyDown}
+                onDragOver={(e) => {
+                  if (!e.dataTransfer.types.includes("Files")) return;
+                  // Accept here even where the generator card refuses input images
+                  e.preventDefault();
+                  e.stopPropagation();
+                  e.dataTransfer.dropEffect = "copy";
+                }}
+                onDrop={onDrop}
+                onBlur={() => setCompletion(null)}
+                rows={14}
+                spellCheck={false}
+                disabled={disabled || !enabled}
+                className={cn("font-mono text-xs", parsed.error && enabled && "border-destructive")}
+              />
+              {completion && (
+                <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                  Tab para completar:
+                  {completion.options.map((option) => (
+                    <button
+                      key={option.type}
+                      type="button"
+                      className="rounded border px-1 font-mono hover:bg-accent"
+                      // Keep the textarea focused so the caret position survives
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={() => applyCompletion(option)}
+                    >
+                      {option.type}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {enabled &&
+                (parsed.error ? (
+                  <p className="mt-1 text-sm text-destructive">{parsed.error}</p>
+                ) : (
+                  <p className="mt-1 text-xs text-gray-500">{summary}</p>
+                ))}
+              <p className="mt-1 text-xs text-gray-500">
+                Partes admitidas: text, inline_data y file_data (también en camelCase). Escribe
+                &quot;inl y pulsa Tab para completar una parte; suelta imágenes aquí para añadirlas
+                como inline_data al último contenido.
+              </p>
+            </div>
+          </div>
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+};
+
+export default RawContentsPanel;
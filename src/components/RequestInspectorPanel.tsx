@@ -0,0 +1,159 @@
+import React from "react";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "./ui/accordion";
+import { Button } from "./ui/button";
+import { formatBody, toCurl, toHar, type HttpExchange } from "../lib/inspector";
+import { showError, showSuccess } from "../utils/toast";
+
+interface RequestInspectorPanelProps {
+  exchanges: HttpExchange[];
+}
+
+function statusClass(exchange: HttpExchange) {
+  if (exchange.error) return "text-red-600";
+  if (!exchange.response) return "text-gray-500";
+  return exchange.response.status < 400 ? "text-green-700" : "text-red-600";
+}
+
+function statusLabel(exchange: HttpExchange) {
+  if (exchange.response) {
+    return `${exchange.response.status} ${exchange.response.statusText}`.trim();
+  }
+  return exchange.error ? "Error de red" : "Pendiente";
+}
+
+function timingLabel({ waitMs, durationMs }: HttpExchange) {
+  if (durationMs !== undefined && waitMs !== undefined) {
+    return `${waitMs} ms hasta las cabeceras · ${durationMs} ms en total`;
+  }
+  if (durationMs !== undefined) return `${durationMs} ms`;
+  return waitMs !== undefined ? `${waitMs} ms hasta las cabeceras` : "";
+}
+
+const HeaderList: React.FC<{ headers: [string, string][] }> = ({ headers }) =>
+  headers.length > 0 ? (
+    <pre className="mt-1 overflow-x-auto whitespace-pre-wrap break-all">
+      {headers.map(([name, value]) => `${name}: ${value}`).join("\n")}
+    </pre>
+  ) : (
+    <p className="mt-1">Sin cabeceras.</p>
+  );
+
+function requestBody({ request }: HttpExchange) {
+  if (request.body !== null) return formatBody(request.body);
+  if (request.form) {
+    return request.form
+      .map((field) =>
+        field.file
+          ? `${field.name}: [${field.file.name}, ${field.file.type}, ${field.file.size} bytes]`
+          : `${field.name}: ${field.value}`
+      )
+      .join("\n");
+  }
+  return request.binaryBytes !== undefined ? `[${request.binaryBytes} bytes binarios]` : "";
+}
+
+const ExchangeDetails: React.FC<{ exchange: HttpExchange }> = ({ exchange }) => {
+  const { request, response } = exchange;
+  const body = requestBody(exchange);
+
+  const copyCurl = async () => {
+    try {
+      await navigator.clipboard.writeText(toCurl(exchange));
+      showSuccess("Comando cURL copiado. Define API_KEY antes de ejecutarlo.");
+    } catch {
+      showError("No se pudo copiar al portapapeles.");
+    }
+  };
+
+  return (
+    <div className="rounded-md border p-3 text-xs text-gray-600 grid gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-mono font-semibold">{request.method}</span>
+        <span className="font-mono break-all flex-1 min-w-0">{request.url}</span>
+        <Button size="sm" variant="secondary" onClick={copyCurl}>
+          Copiar como cURL
+        </Button>
+      </div>
+      <div className="flex flex-wrap gap-3">
+        <span className={statusClass(exchange)}>{statusLabel(exchange)}</span>
+        <span>{new Date(exchange.startedAt).toLocaleTimeString("es-ES")}</span>
+        <span>{timingLabel(exchange)}</span>
+      </div>
+      {exchange.error && <div className="text-red-600">{exchange.error}</div>}
+
+      <details>
+        <summary className="cursor-pointer">Cabeceras de la petición</summary>
+        <HeaderList headers={request.headers} />
+      </details>
+      {body && (
+        <details>
+          <summary className="cursor-pointer">Cuerpo de la petición</summary>
+          <pre className="mt-1 max-h-96 overflow-auto whitespace-pre-wrap break-all">{body}</pre>
+        </details>
+      )}
+      {response && (
+        <>
+          <details>
+            <summary className="cursor-pointer">Cabeceras de la respuesta</summary>
+            <HeaderList headers={response.headers} />
+          </details>
+          <details>
+            <summary className="cursor-pointer">Respuesta</summary>
+            <pre className="mt-1 max-h-96 overflow-auto whitespace-pre-wrap break-all">
+              {response.body === undefined ? "Recibiendo..." : formatBody(response.body)}
+            </pre>
+          </details>
+        </>
+      )}
+    </div>
+  );
+};
+
+/**
+ * The HTTP exchanges of the last generation as they were sent and received,
+ * with the API key redacted and image payloads shortened.
+ */
+const RequestInspectorPanel: React.FC<RequestInspectorPanelProps> = ({ exchanges }) => {
+  const downloadHar = () => {
+    const blob = new Blob([JSON.stringify(toHar(exchanges), null, 2)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `gemini-${exchanges[0]?.startedAt ?? Date.now()}.har`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Accordion type="single" collapsible>
+      <AccordionItem value="request-inspector">
+        <AccordionTrigger>
+          Inspector de peticiones
+          <span className="ml-auto mr-2 text-sm font-normal text-gray-500">
+            {exchanges.length === 1 ? "1 petición" : `${exchanges.length} peticiones`}
+          </span>
+        </AccordionTrigger>
+        <AccordionContent>
+          <div className="grid gap-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <p className="text-xs text-gray-500 flex-1">
+                La API key aparece como REDACTED y las imágenes en base64 van recortadas. Solo se
+                ven las cabeceras de respuesta que el servidor expone por CORS.
+              </p>
+              <Button size="sm" variant="secondary" onClick={downloadHar}>
+                Descargar HAR
+              </Button>
+            </div>
+            {exchanges.map((exchange) => (
+              <ExchangeDetails key={exchange.id} exchange={exchange} />
+            ))}
+          </div>
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+};
+
+export default RequestInspectorPanel;
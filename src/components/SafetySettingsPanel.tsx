@@ -0,0 +1,170 @@
+import React from "react";
+import { Trash2 } from "lucide-react";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "./ui/accordion";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { showError, showSuccess } from "../utils/toast";
+import {
+  BUILT_IN_SAFETY_PROFILES,
+  HARM_BLOCK_THRESHOLD_LABELS,
+  HARM_BLOCK_THRESHOLDS,
+  HARM_CATEGORIES,
+  HARM_CATEGORY_LABELS,
+  loadCustomSafetyProfiles,
+  matchSafetyProfile,
+  saveCustomSafetyProfiles,
+  type HarmBlockThreshold,
+  type SafetyProfile,
+  type SafetyThresholds,
+} from "../lib/gemini/safety";
+
+const CUSTOM_VALUE = "__custom__";
+
+interface SafetySettingsPanelProps {
+  value: SafetyThresholds;
+  onChange: (thresholds: SafetyThresholds) => void;
+  disabled?: boolean;
+}
+
+const SafetySettingsPanel: React.FC<SafetySettingsPanelProps> = ({ value, onChange, disabled }) => {
+  const [customProfiles, setCustomProfiles] =
+    React.useState<SafetyProfile[]>(loadCustomSafetyProfiles);
+  const [profileName, setProfileName] = React.useState("");
+
+  const profiles = [...BUILT_IN_SAFETY_PROFILES, ...customProfiles];
+  const activeProfile = matchSafetyProfile(value, profiles);
+
+  const persist = (next: SafetyProfile[]) => {
+    setCustomProfiles(next);
+    try {
+      saveCustomSafetyProfiles(next);
+    } catch {
+      showError("No se pudieron guardar los perfiles en localStorage");
+    }
+  };
+
+  const saveProfile = () => {
+    const name = profileName.trim();
+    if (!name) return;
+    if (BUILT_IN_SAFETY_PROFILES.some((p) => p.name === name)) {
+      showError("Ese nombre pertenece a un perfil predefinido.");
+      return;
+    }
+    persist([...customProfiles.filter((p) => p.name !== name), { name, thresholds: value }]);
+    setProfileName("");
+    showSuccess(`Perfil "${name}" guardado`);
+  };
+
+  const deleteProfile = (name: string) => {
+    persist(customProfiles.filter((p) => p.name !== name));
+  };
+
+  return (
+    <Accordion type="single" collapsible>
+      <AccordionItem value="safety-settings">
+        <AccordionTrigger>
+          Ajustes de seguridad
+          <span className="ml-auto mr-2 text-sm font-normal text-gray-500">
+            {activeProfile ?? "Personalizado"}
+          </span>
+        </AccordionTrigger>
+        <AccordionContent>
+          <div className="grid gap-4">
+            <div>
+              <Label className="mb-1">Perfil</Label>
+              <div className="flex gap-2">
+                <Select
+                  value={activeProfile ?? CUSTOM_VALUE}
+                  onValueChange={(name) => {
+                    const profile = profiles.find((p) => p.name === name);
+                    if (profile) onChange(profile.thresholds);
+                  }}
+                  disabled={disabled}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {profiles.map((p) => (
+                      <SelectItem key={p.name} value={p.name}>
+                        {p.name}
+                      </SelectItem>
+                    ))}
+                    {!activeProfile && (
+                      <SelectItem value={CUSTOM_VALUE} disabled>
+                        Personalizado
+                      </SelectItem>
+                    )}
+                  </SelectContent>
+                </Select>
+                {activeProfile && customProfiles.some((p) => p.name === activeProfile) && (
+                  <Button
+                    onClick={() => deleteProfile(activeProfile)}
+                    variant="ghost"
+                    size="icon"
+                    title="Eliminar perfil"
+                    disabled={disabled}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-2">
+              {HARM_CATEGORIES.map((category) => (
+                <div key={category}>
+                  <Label className="mb-1">{HARM_CATEGORY_LABELS[category]}</Label>
+                  <Select
+                    value={value[category]}
+                    onValueChange={(threshold) =>
+                      onChange({ ...value, [category]: threshold as HarmBlockThreshold })
+                    }
+                    disabled={disabled}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {HARM_BLOCK_THRESHOLDS.map((threshold) => (
+                        <SelectItem key={threshold} value={threshold}>
+                          {HARM_BLOCK_THRESHOLD_LABELS[threshold]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <Label className="mb-1">Guardar como perfil</Label>
+              <div className="flex gap-2">
+                <Input
+                  value={profileName}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setProfileName(e.target.value)
+                  }
+                  placeholder="Nombre del perfil"
+                  className="flex-1"
+                  disabled={disabled}
+                />
+                <Button
+                  onClick={saveProfile}
+                  variant="secondary"
+                  disabled={disabled || !profileName.trim()}
+                >
+                  Guardar perfil
+                </Button>
+              </div>
+            </div>
+          </div>
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+};
+
+export default SafetySettingsPanel;
@@ -0,0 +1,182 @@
+import React from "react";
+import { ArrowDown, ArrowUp, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Progress } from "./ui/progress";
+import { cn } from "../lib/utils";
+import { formatByteSize } from "../lib/image";
+import type { TrackedFile } from "../lib/gemini/files";
+
+export interface SourceImage {
+  id: string;
+  /** The image as picked, dropped or pasted. */
+  original: File;
+  /** What is sent: `original` after format conversion and preprocessing, or the same file. */
+  file: File;
+  /** Base64 without the data: prefix. */
+  base64: string;
+  mime: string;
+  previewUrl: string;
+  /** What the image is for ("sujeto", "estilo"...); empty when unlabelled. */
+  role: string;
+  /** Files API copy, once it has been uploaded. */
+  upload: TrackedFile | null;
+  /** Upload percentage while it is being uploaded. */
+  uploadProgress: number | null;
+  /** The URL it was imported from, kept in the result metadata. */
+  sourceUrl?: string;
+}
+
+interface SourceImageListProps {
+  images: SourceImage[];
+  onChange: (images: SourceImage[]) => void;
+  /** Bytes the inlined images add to the request, shown against `requestLimit`. */
+  requestBytes?: number;
+  requestLimit?: number;
+  disabled?: boolean;
+}
+
+const ROLE_SUGGESTIONS = ["sujeto", "estilo", "fondo", "producto", "referencia de color"];
+
+const SourceImageList: React.FC<SourceImageListProps> = ({
+  images,
+  onChange,
+  requestBytes,
+  requestLimit,
+  disabled,
+}) => {
+  const move = (index: number, delta: number) => {
+    const next = [...images];
+    const [image] = next.splice(index, 1);
+    next.splice(index + delta, 0, image);
+    onChange(next);
+  };
+
+  const update = (id: string, patch: Partial<SourceImage>) =>
+    onChange(images.map((image) => (image.id === id ? { ...image, ...patch } : image)));
+
+  return (
+    <div className="mt-2 grid gap-3">
+      <datalist id="source-image-roles">
+        {ROLE_SUGGESTIONS.map((role) => (
+          <option key={role} value={role} />
+        ))}
+      </datalist>
+      {images.map((image, i) => (
+        <div key={image.id} className="flex items-start gap-4">
+          <img
+            src={image.previewUrl}
+            alt={`Entrada ${i + 1}`}
+            className="w-40 h-auto rounded-md border"
+          />
+          <div className="text-sm text-gray-600 flex-1 min-w-0 grid gap-1">
+            <div className="flex items-center gap-1">
+              <strong className="truncate">
+                {images.length > 1 && `${i + 1}. `}
+                {image.file.name}
+              </strong>
+              <div className="ml-auto flex">
+                {images.length > 1 && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title="Subir"
+                      disabled={disabled || i === 0}
+                      onClick={() => move(i, -1)}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title="Bajar"
+                      disabled={disabled || i === images.length - 1}
+                      onClick={() => move(i, 1)}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  title="Quitar imagen"
+                  disabled={disabled}
+                  onClick={() => onChange(images.filter((other) => other.id !== image.id))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            {image.sourceUrl && (
+              <a
+                href={image.sourceUrl}
+                target="_blank"
+                rel="noreferrer"
+                className="truncate text-xs underline"
+                title={image.sourceUrl}
+              >
+                {image.sourceUrl}
+              </a>
+            )}
+            <div>
+              {image.mime} ·{" "}
+              {image.file === image.original
+                ? formatByteSize(image.file.size)
+                : `${formatByteSize(image.original.size)} → ${formatByteSize(image.file.size)}`}
+            </div>
+            <Input
+              value={image.role}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                update(image.id, { role: e.target.value })
+              }
+              list="source-image-roles"
+              placeholder="Función (opcional): sujeto, estilo, fondo..."
+              disabled={disabled}
+              className="h-8"
+            />
+            {image.uploadProgress !== null && (
+              <div className="mt-1 w-40">
+                <Progress value={image.uploadProgress} className="h-2" />
+                <div className="text-xs text-gray-500 mt-1">
+                  Subiendo a la Files API: {image.uploadProgress} %
+                </div>
+              </div>
+            )}
+            {image.upload && image.uploadProgress === null && (
+              <div className="text-xs text-gray-500">
+                En la Files API hasta el{" "}
+                {new Date(image.upload.expirationTime).toLocaleString("es-ES")}
+              </div>
+            )}
+            <div>
+              <a href={image.previewUrl} download={image.file.name} className="inline-block">
+                <Button variant="secondary" size="sm">
+                  Descargar entrada
+                </Button>
+              </a>
+            </div>
+          </div>
+        </div>
+      ))}
+      {requestBytes !== undefined && requestLimit !== undefined && (
+        <p
+          className={cn(
+            "text-xs",
+            requestBytes > requestLimit ? "text-destructive" : "text-gray-500"
+          )}
+        >
+          En la petición (base64): {formatByteSize(requestBytes)} de {formatByteSize(requestLimit)}{" "}
+          como máximo
+          {requestBytes > requestLimit && ". Activa el preprocesado o reduce las imágenes."}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SourceImageList;
@@ -0,0 +1,261 @@
+import {
+  generateContentResponseSchema,
+  type GenerateContentRequest,
+  type GenerateContentResponse,
+  type Content,
+  type GenerateResult,
+  type GenerationConfig,
+  type RequestPart,
+  type SafetySetting,
+  type ResultCandidate,
+  type ResultPart,
+} from "./types";
+import {
+  fetchOrNetworkError,
+  GeminiApiError,
+  GeminiResponseError,
+  GeminiTimeoutError,
+  isAbortError,
+} from "./errors";
+import {
+  DEFAULT_ENDPOINT,
+  endpointHeaders,
+  modelMethodUrl,
+  type EndpointProfile,
+} from "./endpoints";
+
+export const DEFAULT_MODEL = "gemini-2.5-flash-image";
+
+export interface GeminiClientOptions {
+  apiKey: string;
+  model?: string;
+  /** Where and how to send requests; defaults to Google AI Studio v1beta. */
+  endpoint?: EndpointProfile;
+  /** Aborts the request (including reading the body) when signalled. */
+  signal?: AbortSignal;
+  /** Fails with GeminiTimeoutError when the whole request takes longer than this. */
+  timeoutMs?: number;
+  /** Used instead of the global fetch, e.g. to record exchanges for the inspector. */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Runs `task` with a signal that fires when either the caller's signal aborts
+ * or `timeoutMs` elapses; the latter surfaces as GeminiTimeoutError.
+ */
+export async function withAbort<T>(
+  { signal, timeoutMs }: Pick<GeminiClientOptions, "signal" | "timeoutMs">,
+  task: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) onAbort();
+  signal?.addEventListener("abort", onAbort);
+
+  let timedOut = false;
+  const timer =
+    timeoutMs && timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : undefined;
+
+  try {
+    return await task(controller.signal);
+  } catch (e) {
+    if (timedOut && isAbortError(e)) throw new GeminiTimeoutError(timeoutMs ?? 0);
+    throw e;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+export interface ImageRequestInput {
+  prompt: string;
+  images?: { mimeType: string; data: string; fileUri?: string }[];
+  /** Authored contents, sent as they are instead of the prompt and images. */
+  contents?: Content[];
+  systemInstruction?: Content;
+  generationConfig?: GenerationConfig;
+  safetySettings?: SafetySetting[];
+}
+
+/**
+ * Builds the request body used by the generator: prompt text first, then the
+ * input images in order, inlined unless they were uploaded through the Files API.
+ */
+export function buildImageRequest({
+  prompt,
+  images = [],
+  contents,
+  systemInstruction,
+  generationConfig,
+  safetySettings,
+}: ImageRequestInput): GenerateContentRequest {
+  const parts: RequestPart[] = [{ text: prompt }];
+  for (const image of images) {
+    parts.push(
+      image.fileUri
+        ? { fileData: { mimeType: image.mimeType, fileUri: image.fileUri } }
+        : { inlineData: { mimeType: image.mimeType, data: image.data } }
+    );
+  }
+  // Vertex AI rejects contents without a role; the Gemini API accepts it too
+  const request: GenerateContentRequest = { contents: contents ?? [{ role: "user", parts }] };
+  if (systemInstruction) request.systemInstruction = systemInstruction;
+  if (generationConfig && Object.keys(generationConfig).length > 0) {
+    request.generationConfig = generationConfig;
+  }
+  if (safetySettings && safetySettings.length > 0) {
+    request.safetySettings = safetySettings;
+  }
+  return request;
+}
+
+export function generateContentUrl(model: string, endpoint = DEFAULT_ENDPOINT, apiKey = "") {
+  return modelMethodUrl(endpoint, model, "generateContent", apiKey);
+}
+
+/** Flattens a validated response into candidates with text and image parts. Thought parts are skipped. */
+export function toGenerateResult(response: GenerateContentResponse): GenerateResult {
+  const candidates: ResultCandidate[] = (response.candidates ?? []).map((candidate, i) => {
+    const parts: ResultPart[] = [];
+    for (const part of candidate.content?.parts ?? []) {
+      if (part.thought) continue;
+      if (part.inlineData) {
+        parts.push({
+          kind: "image",
+          mimeType: part.inlineData.mimeType,
+          data: part.inlineData.data,
+        });
+      } else if (typeof part.text === "string" && part.text.length > 0) {
+        parts.push({ kind: "text", text: part.text });
+      }
+    }
+    return {
+      index: candidate.index ?? i,
+      finishReason: candidate.finishReason,
+      parts,
+    };
+  });
+
+  return {
+    candidates,
+    promptFeedback: response.promptFeedback,
+    usage: response.usageMetadata,
+    modelVersion: response.modelVersion,
+    raw: response,
+  };
+}
+
+/**
+ * Recursively converts snake_case keys (inline_data, mime_type, finish_reason...)
+ * to camelCase. Vertex AI and some gateways answer in proto field names, while
+ * the schemas use the JSON (camelCase) names.
+ */
+export function camelizeKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(camelizeKeys);
+  if (!value || typeof value !== "object") return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, v]) => [
+      key.replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase()),
+      camelizeKeys(v),
+    ])
+  );
+}
+
+export function parseGenerateResponse(text: string): GenerateResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new GeminiResponseError("La respuesta de la API no es JSON válido.", text);
+  }
+  const parsed = generateContentResponseSchema.safeParse(camelizeKeys(json));
+  if (!parsed.success) {
+    throw new GeminiResponseError(
+      `Respuesta de la API con formato inesperado: ${parsed.error.message}`,
+      text
+    );
+  }
+  return toGenerateResult(parsed.data);
+}
+
+export async function generateContent(
+  request: GenerateContentRequest,
+  {
+    apiKey,
+    model = DEFAULT_MODEL,
+    endpoint = DEFAULT_ENDPOINT,
+    fetch: fetchFn = fetch,
+    ...abort
+  }: GeminiClientOptions
+): Promise<GenerateResult> {
+  return withAbort(abort, async (signal) => {
+    const res = await fetchOrNetworkError(fetchFn, generateContentUrl(model, endpoint, apiKey), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...endpointHeaders(endpoint, apiKey),
+      },
+      body: JSON.stringify(request),
+      signal,
+    });
+
+    const text = await res.text();
+    if (!res.ok) {
+      throw new GeminiApiError(res.status, res.statusText, text, res.headers);
+    }
+    return parseGenerateResponse(text);
+  });
+}
+
+export interface ResultEntry {
+  candidateIndex: number;
+  finishReason?: string;
+  image: { mimeType: string; data: string } | null;
+  texts: string[];
+}
+
+/**
+ * Groups each candidate's parts into display entries: text parts attach to the
+ * image that follows them (the model usually describes before it draws), and
+ * trailing text attaches to the last image. Candidates without images yield a
+ * single text-only entry so refusals and explanations are still shown.
+ */
+export function groupResultEntries(result: GenerateResult): ResultEntry[] {
+  const entries: ResultEntry[] = [];
+  for (const candidate of result.candidates) {
+    const own: ResultEntry[] = [];
+    let pending: string[] = [];
+    for (const part of candidate.parts) {
+      if (part.kind === "text") {
+        pending.push(part.text);
+      } else {
+        own.push({
+          candidateIndex: candidate.index,
+          finishReason: candidate.finishReason,
+          image: { mimeType: part.mimeType, data: part.data },
+          texts: pending,
+        });
+        pending = [];
+      }
+    }
+    if (pending.length > 0) {
+      if (own.length > 0) {
+        own[own.length - 1].texts.push(...pending);
+      } else {
+        own.push({
+          candidateIndex: candidate.index,
+          finishReason: candidate.finishReason,
+          image: null,
+          texts: pending,
+        });
+      }
+    }
+    entries.push(...own);
+  }
+  return entries;
+}
@@ -0,0 +1,211 @@
+import { z } from "zod";
+import { bytesToBase64 } from "../image";
+
+export const API_VERSIONS = ["v1beta", "v1"] as const;
+
+// "gemini" is the Gemini API (AI Studio keys, models/{m} paths); "vertex" is
+// Vertex AI (OAuth bearer tokens, projects/{p}/locations/{l}/publishers/google/models/{m});
+// "proxy" is our own /api/generate function, which holds the key server-side.
+export const ENDPOINT_KINDS = ["gemini", "vertex", "proxy"] as const;
+
+// How the key travels: a header (x-goog-api-key by default, or a gateway's
+// own header name), an Authorization bearer token, Authorization: Basic with
+// the key as "user:password" (accounts on server/gemini-proxy.ts), the ?key=
+// query parameter, or not at all (e.g. a local mock server).
+export const AUTH_SCHEMES = ["header", "bearer", "basic", "query", "none"] as const;
+
+export type ApiVersion = (typeof API_VERSIONS)[number];
+export type EndpointKind = (typeof ENDPOINT_KINDS)[number];
+export type AuthScheme = (typeof AUTH_SCHEMES)[number];
+
+export const endpointProfileSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().min(1, "El nombre es obligatorio"),
+    kind: z.enum(ENDPOINT_KINDS).default("gemini"),
+    baseUrl: z.string().url("URL no válida"),
+    apiVersion: z.enum(API_VERSIONS),
+    auth: z.enum(AUTH_SCHEMES),
+    /** Header carrying the key when `auth` is "header". */
+    authHeader: z.string().min(1),
+    headers: z.record(z.string()),
+    /** Vertex AI only. */
+    project: z.string().default(""),
+    /** Vertex AI only, e.g. "us-central1" or "global". */
+    location: z.string().default(""),
+    builtIn: z.boolean().optional(),
+  })
+  .refine((p) => p.kind !== "vertex" || (p.project && p.location), {
+    message: "Vertex AI necesita proyecto y ubicación",
+    path: ["project"],
+  });
+
+export type EndpointProfile = z.infer<typeof endpointProfileSchema>;
+
+export const DEFAULT_ENDPOINT: EndpointProfile = {
+  id: "google-ai-studio",
+  name: "Google AI Studio (v1beta)",
+  kind: "gemini",
+  baseUrl: "https://generativelanguage.googleapis.com",
+  apiVersion: "v1beta",
+  auth: "header",
+  authHeader: "x-goog-api-key",
+  headers: {},
+  project: "",
+  location: "",
+  builtIn: true,
+};
+
+/** Starting point for a new Vertex AI profile; project and location still need filling in. */
+export const VERTEX_ENDPOINT_TEMPLATE: Omit<EndpointProfile, "id" | "name"> = {
+  kind: "vertex",
+  baseUrl: "https://aiplatform.googleapis.com",
+  apiVersion: "v1",
+  auth: "bearer",
+  authHeader: "Authorization",
+  headers: {},
+  project: "",
+  location: "global",
+};
+
+/** Regional Vertex AI host; the "global" location has no region prefix. */
+export function vertexBaseUrl(location: string) {
+  return location && location !== "global"
+    ? `https://${location}-aiplatform.googleapis.com`
+    : "https://aiplatform.googleapis.com";
+}
+
+/** The deployment's own /api/generate proxy; no key is sent from the browser. */
+export const PROXY_ENDPOINT: EndpointProfile = {
+  id: "server-proxy",
+  name: "Proxy del servidor (/api/generate)",
+  kind: "proxy",
+  baseUrl: typeof location !== "undefined" ? location.origin : "http://localhost:3000",
+  apiVersion: "v1beta",
+  auth: "none",
+  authHeader: "Authorization",
+  headers: {},
+  project: "",
+  location: "",
+  builtIn: true,
+};
+
+export const BUILT_IN_ENDPOINTS: EndpointProfile[] = [
+  DEFAULT_ENDPOINT,
+  {
+    ...DEFAULT_ENDPOINT,
+    id: "google-ai-studio-v1",
+    name: "Google AI Studio (v1)",
+    apiVersion: "v1",
+  },
+  PROXY_ENDPOINT,
+];
+
+export const AUTH_SCHEME_LABELS: Record<AuthScheme, string> = {
+  header: "Cabecera con la key",
+  bearer: "Authorization: Bearer",
+  basic: "Authorization: Basic (usuario:contraseña)",
+  query: "Parámetro ?key=",
+  none: "Sin autenticación",
+};
+
+/** Resource path of a model for the endpoint's URL shape, without the `:method` suffix. */
+export function modelResourcePath(endpoint: EndpointProfile, model: string) {
+  if (endpoint.kind === "vertex") {
+    return `projects/${endpoint.project}/locations/${endpoint.location}/publishers/google/models/${model}`;
+  }
+  return `models/${model}`;
+}
+
+/** Builds `{baseUrl}/{apiVersion}/{path}` with the key added when auth is "query". */
+export function endpointUrl(
+  endpoint: EndpointProfile,
+  path: string,
+  apiKey: string,
+  params: Record<string, string> = {}
+) {
+  const url = new URL(`${endpoint.baseUrl.replace(/\/+$/, "")}/${endpoint.apiVersion}/${path}`);
+  for (const [key, value] of Object.entries(params)) url.searchParams.set(key, value);
+  if (endpoint.auth === "query" && apiKey) url.searchParams.set("key", apiKey);
+  return url.toString();
+}
+
+/**
+ * URL of a generation method for a model. Proxies take the model as a query
+ * parameter and choose streaming with stream=sse; the API itself addresses
+ * `{model}:{method}` under the endpoint's version.
+ */
+export function modelMethodUrl(
+  endpoint: EndpointProfile,
+  model: string,
+  method: "generateContent" | "streamGenerateContent",
+  apiKey: string
+) {
+  if (endpoint.kind === "proxy") {
+    const url = new URL(`${endpoint.baseUrl.replace(/\/+$/, "")}/api/generate`);
+    url.searchParams.set("model", model);
+    if (method === "streamGenerateContent") url.searchParams.set("stream", "sse");
+    return url.toString();
+  }
+  return endpointUrl(
+    endpoint,
+    `${modelResourcePath(endpoint, model)}:${method}`,
+    apiKey,
+    method === "streamGenerateContent" ? { alt: "sse" } : {}
+  );
+}
+
+/** The proxy's /api/fetch-image URL for a remote image, which the browser may not read itself. */
+export function proxyImageUrl(endpoint: EndpointProfile, imageUrl: string) {
+  const url = new URL(`${endpoint.baseUrl.replace(/\/+$/, "")}/api/fetch-image`);
+  url.searchParams.set("url", imageUrl);
+  return url.toString();
+}
+
+/** Authorization value for "user:password", UTF-8 encoded so any character goes through. */
+export function basicAuthorization(credentials: string) {
+  return `Basic ${bytesToBase64(new TextEncoder().encode(credentials))}`;
+}
+
+export function endpointHeaders(endpoint: EndpointProfile, apiKey: string): Record<string, string> {
+  const headers: Record<string, string> = { ...endpoint.headers };
+  if (apiKey && endpoint.auth === "header") headers[endpoint.authHeader] = apiKey;
+  if (apiKey && endpoint.auth === "bearer") headers.Authorization = `Bearer ${apiKey}`;
+  if (apiKey && endpoint.auth === "basic") headers.Authorization = basicAuthorization(apiKey);
+  return headers;
+}
+
+/** Parses "Name: value" lines into a header record; blank lines are ignored. */
+export function parseHeaderLines(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split(/\r?\n/)) {
+    const index = line.indexOf(":");
+    if (index <= 0) continue;
+    headers[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+  }
+  return headers;
+}
+
+export function formatHeaderLines(headers: Record<string, string>) {
+  return Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join("\n");
+}
+
+const PROFILES_STORAGE_KEY = "gemini_endpoint_profiles";
+
+/** User-defined profiles from localStorage; empty when unavailable or corrupt. */
+export function loadCustomEndpoints(): EndpointProfile[] {
+  try {
+    const parsed = z
+      .array(endpointProfileSchema)
+      .safeParse(JSON.parse(localStorage.getItem(PROFILES_STORAGE_KEY) ?? "[]"));
+    return parsed.success ? (parsed.data as EndpointProfile[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomEndpoints(profiles: EndpointProfile[]) {
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+}
@@ -0,0 +1,341 @@
+import { z } from "zod";
+import type { GenerateResult } from "./types";
+
+// Error JSON returned by Google APIs: { "error": { code, status, message, details } }
+export const googleErrorSchema = z.object({
+  error: z
+    .object({
+      code: z.number().optional(),
+      status: z.string().optional(),
+      message: z.string().optional(),
+      details: z.array(z.record(z.unknown())).optional(),
+    })
+    .passthrough(),
+});
+
+export type GoogleRpcError = z.infer<typeof googleErrorSchema>["error"];
+
+export type GeminiErrorKind =
+  | "invalid_api_key"
+  | "permission_denied"
+  | "quota_exhausted"
+  | "rate_limited"
+  | "unsupported_mime"
+  | "payload_too_large"
+  | "model_not_found"
+  | "invalid_argument"
+  | "location_unsupported"
+  | "server_error"
+  | "unavailable"
+  | "unknown";
+
+export function parseGoogleError(body: string): GoogleRpcError | null {
+  try {
+    const parsed = googleErrorSchema.safeParse(JSON.parse(body));
+    return parsed.success ? parsed.data.error : null;
+  } catch {
+    return null;
+  }
+}
+
+function detailReasons(error: GoogleRpcError | null): string[] {
+  return (error?.details ?? [])
+    .map((d) => d.reason)
+    .filter((r): r is string => typeof r === "string");
+}
+
+const quotaViolationsSchema = z.object({
+  "@type": z.string().endsWith("google.rpc.QuotaFailure"),
+  violations: z.array(
+    z.object({ quotaId: z.string().optional(), quotaValue: z.string().optional() }).passthrough()
+  ),
+});
+
+/**
+ * Whether a 429 is a spent quota rather than a momentary rate limit. Google
+ * sends a QuotaFailure for both, so it comes down to which quota was hit:
+ * a per-day one (quotaId "GenerateRequestsPerDayPerProjectPerModel"...), or one
+ * the project does not have at all (quotaValue "0"), only returns at the reset.
+ * Per-minute quotas, and 429s without details, are worth waiting for.
+ */
+function isQuotaSpent(error: GoogleRpcError | null) {
+  const reasons = detailReasons(error);
+  if (reasons.includes("PROXY_DAILY_QUOTA_EXCEEDED")) return true;
+  return (error?.details ?? []).some((detail) => {
+    const parsed = quotaViolationsSchema.safeParse(detail);
+    return (
+      parsed.success &&
+      parsed.data.violations.some((v) => /PerDay/i.test(v.quotaId ?? "") || v.quotaValue === "0")
+    );
+  });
+}
+
+export function classifyApiError(status: number, error: GoogleRpcError | null): GeminiErrorKind {
+  const message = error?.message?.toLowerCase() ?? "";
+  const reasons = detailReasons(error);
+
+  if (reasons.includes("API_KEY_INVALID") || message.includes("api key not valid")) {
+    return "invalid_api_key";
+  }
+  if (status === 413 || message.includes("payload size exceeds") || message.includes("too large")) {
+    return "payload_too_large";
+  }
+  if (message.includes("mime type") || message.includes("mimetype")) return "unsupported_mime";
+  if (message.includes("user location is not supported")) return "location_unsupported";
+  if (status === 429) return isQuotaSpent(error) ? "quota_exhausted" : "rate_limited";
+  if (status === 404) return "model_not_found";
+  if (status === 401) return "invalid_api_key";
+  if (status === 403) return "permission_denied";
+  if (status === 400) return "invalid_argument";
+  if (status === 503) return "unavailable";
+  if (status >= 500) return "server_error";
+  return "unknown";
+}
+
+/** Non-OK HTTP response from any image provider. `body` is the raw response text. */
+export class HttpStatusError extends Error {
+  readonly status: number;
+  readonly statusText: string;
+  readonly body: string;
+  readonly headers: Headers;
+
+  constructor(
+    message: string,
+    status: number,
+    statusText: string,
+    body: string,
+    headers = new Headers()
+  ) {
+    super(message);
+    this.name = "HttpStatusError";
+    this.status = status;
+    this.statusText = statusText;
+    this.body = body;
+    this.headers = headers;
+  }
+}
+
+/** Non-OK HTTP response from the Gemini API, with the Google error body parsed. */
+export class GeminiApiError extends HttpStatusError {
+  /** Parsed Google error body, when there is one. */
+  readonly error: GoogleRpcError | null;
+  readonly kind: GeminiErrorKind;
+
+  constructor(status: number, statusText: string, body: string, headers = new Headers()) {
+    const error = parseGoogleError(body);
+    super(
+      error?.message ?? `Gemini API error: ${status} ${statusText}`,
+      status,
+      statusText,
+      body,
+      headers
+    );
+    this.name = "GeminiApiError";
+    this.error = error;
+    this.kind = classifyApiError(status, error);
+  }
+}
+
+/** The API answered 200 but the body is not a valid GenerateContentResponse. */
+export class GeminiResponseError extends Error {
+  readonly body: string;
+
+  constructor(message: string, body: string) {
+    super(message);
+    this.name = "GeminiResponseError";
+    this.body = body;
+  }
+}
+
+/** The request was aborted because it exceeded `timeoutMs`. */
+export class GeminiTimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`La solicitud superó el tiempo límite de ${Math.round(timeoutMs / 1000)} s.`);
+    this.name = "GeminiTimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/** No HTTP response came back: offline, DNS failure, CORS, connection reset... */
+export class NetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * `fetchFn(input, init)`, with the TypeError fetch throws when the request
+ * fails on the network turned into a NetworkError. Any TypeError raised later,
+ * while handling the response, is a bug and must not look like one.
+ */
+export async function fetchOrNetworkError(
+  fetchFn: typeof fetch,
+  input: RequestInfo | URL,
+  init?: RequestInit
+) {
+  try {
+    return await fetchFn(input, init);
+  } catch (e) {
+    throw e instanceof TypeError ? new NetworkError(e.message) : e;
+  }
+}
+
+/** True for the error fetch throws when its signal is aborted by the caller. */
+export function isAbortError(e: unknown) {
+  return e instanceof Error && e.name === "AbortError";
+}
+
+/** Quota state reported by our Node proxy (server/gemini-proxy.ts) when it refuses a request. */
+export interface ProxyQuotaStatus {
+  limit: "requestsPerMinute" | "imagesPerDay";
+  quotaLimit: number;
+  remaining: number;
+  resetsAt: Date;
+}
+
+const proxyQuotaInfoSchema = z.object({
+  domain: z.literal("gemini-proxy"),
+  metadata: z.object({
+    limit: z.enum(["requestsPerMinute", "imagesPerDay"]),
+    quotaLimit: z.coerce.number(),
+    remaining: z.coerce.number(),
+    resetsAt: z.coerce.date(),
+  }),
+});
+
+/** The proxy's quota ErrorInfo detail, when the error carries one. */
+export function proxyQuotaStatus(error: GoogleRpcError | null): ProxyQuotaStatus | null {
+  for (const detail of error?.details ?? []) {
+    const parsed = proxyQuotaInfoSchema.safeParse(detail);
+    if (parsed.success) return parsed.data.metadata as ProxyQuotaStatus;
+  }
+  return null;
+}
+
+export interface ErrorExplanation {
+  title: string;
+  guidance: string;
+}
+
+const API_ERROR_MESSAGES: Record<GeminiErrorKind, ErrorExplanation> = {
+  invalid_api_key: {
+    title: "API key no válida",
+    guidance: "Revisa que la key esté completa y activa en Google AI Studio.",
+  },
+  permission_denied: {
+    title: "Permiso denegado",
+    guidance: "La key no tiene acceso a este modelo o la API no está habilitada en el proyecto.",
+  },
+  quota_exhausted: {
+    title: "Cuota agotada",
+    guidance:
+      "Se alcanzó el límite de uso del proyecto. Espera al reinicio de la cuota o revisa la facturación.",
+  },
+  rate_limited: {
+    title: "Demasiadas solicitudes",
+    guidance: "Espera unos segundos antes de volver a intentarlo.",
+  },
+  unsupported_mime: {
+    title: "Formato de imagen no admitido",
+    guidance: "Usa PNG, JPEG, WebP, HEIC o HEIF como imagen de entrada.",
+  },
+  payload_too_large: {
+    title: "Solicitud demasiado grande",
+    guidance: "Reduce el tamaño de la imagen de entrada antes de enviarla.",
+  },
+  model_not_found: {
+    title: "Modelo no encontrado",
+    guidance: "El modelo no existe o no está disponible para esta versión de la API.",
+  },
+  invalid_argument: {
+    title: "Solicitud no válida",
+    guidance: "Revisa el prompt y los parámetros enviados.",
+  },
+  location_unsupported: {
+    title: "Región no admitida",
+    guidance: "La API no está disponible desde tu ubicación.",
+  },
+  server_error: {
+    title: "Error interno del servicio",
+    guidance: "Es un fallo de Google; vuelve a intentarlo en unos minutos.",
+  },
+  unavailable: {
+    title: "Servicio no disponible",
+    guidance: "El modelo está sobrecargado; vuelve a intentarlo en unos minutos.",
+  },
+  unknown: {
+    title: "Error en la API",
+    guidance: "Consulta la consola para ver la respuesta completa.",
+  },
+};
+
+function explainProxyQuota(quota: ProxyQuotaStatus): ErrorExplanation {
+  if (quota.limit === "requestsPerMinute") {
+    return {
+      title: "Límite por minuto del proxy",
+      guidance: `Tu usuario admite ${quota.quotaLimit} peticiones por minuto; se restablece a las ${quota.resetsAt.toLocaleTimeString("es-ES")}.`,
+    };
+  }
+  return {
+    title: "Cuota diaria del proxy insuficiente",
+    guidance: `Te quedan ${quota.remaining} de ${quota.quotaLimit} imágenes hoy; la cuota se restablece el ${quota.resetsAt.toLocaleString("es-ES")}.`,
+  };
+}
+
+export function explainApiError(e: GeminiApiError): ErrorExplanation {
+  const quota = proxyQuotaStatus(e.error);
+  if (quota) return explainProxyQuota(quota);
+  const base = API_ERROR_MESSAGES[e.kind];
+  return e.kind === "unknown"
+    ? { ...base, title: `${base.title}: ${e.status} ${e.statusText}` }
+    : base;
+}
+
+const BLOCK_REASON_MESSAGES: Record<string, string> = {
+  SAFETY: "El prompt fue bloqueado por los filtros de seguridad.",
+  BLOCKLIST: "El prompt contiene términos de la lista de bloqueo.",
+  PROHIBITED_CONTENT: "El prompt solicita contenido prohibido por las políticas de uso.",
+  IMAGE_SAFETY: "La imagen de entrada fue bloqueada por los filtros de seguridad.",
+  OTHER: "El prompt fue bloqueado por un motivo no especificado.",
+};
+
+const FINISH_REASON_MESSAGES: Record<string, string> = {
+  SAFETY: "La respuesta se detuvo por los filtros de seguridad.",
+  IMAGE_SAFETY: "La imagen generada fue bloqueada por los filtros de seguridad.",
+  RECITATION: "La respuesta se detuvo porque reproducía contenido protegido.",
+  PROHIBITED_CONTENT: "La respuesta contenía contenido prohibido por las políticas de uso.",
+  BLOCKLIST: "La respuesta contenía términos de la lista de bloqueo.",
+  SPII: "La respuesta contenía información personal sensible.",
+  MAX_TOKENS: "La respuesta se cortó al alcanzar el límite de tokens.",
+  NO_IMAGE: "El modelo no generó ninguna imagen.",
+  IMAGE_PROHIBITED_CONTENT: "La imagen generada contenía contenido prohibido.",
+  IMAGE_RECITATION: "La imagen generada reproducía contenido protegido.",
+  IMAGE_OTHER: "La imagen no se pudo generar por un motivo no especificado.",
+  MALFORMED_FUNCTION_CALL: "El modelo produjo una respuesta mal formada.",
+  OTHER: "La respuesta se detuvo por un motivo no especificado.",
+};
+
+/**
+ * Explains why a successful (200) response came back blocked or incomplete:
+ * a prompt-level blockReason, or candidates that did not finish with STOP.
+ * Returns an empty list when everything finished normally.
+ */
+export function explainBlockedResult(result: GenerateResult): string[] {
+  const reasons: string[] = [];
+  const blockReason = result.promptFeedback?.blockReason;
+  if (blockReason) {
+    reasons.push(BLOCK_REASON_MESSAGES[blockReason] ?? `Prompt bloqueado (${blockReason}).`);
+  }
+  for (const candidate of result.candidates) {
+    const reason = candidate.finishReason;
+    if (!reason || reason === "STOP" || reason === "FINISH_REASON_UNSPECIFIED") continue;
+    const message = FINISH_REASON_MESSAGES[reason] ?? `La respuesta terminó con ${reason}.`;
+    reasons.push(
+      result.candidates.length > 1 ? `Candidato ${candidate.index + 1}: ${message}` : message
+    );
+  }
+  return reasons;
+}
@@ -0,0 +1,307 @@
+import { z } from "zod";
+import { base64Length } from "../image";
+import { camelizeKeys, withAbort, type GeminiClientOptions } from "./client";
+import { fetchOrNetworkError, GeminiApiError, GeminiResponseError } from "./errors";
+import { sleep } from "./retry";
+import { endpointHeaders, endpointUrl, type EndpointProfile } from "./endpoints";
+
+// Files API: inputs above the threshold, and the largest others when together
+// they would not fit in one request, are uploaded once with the resumable
+// protocol and referenced by URI, instead of being inlined as base64 (which
+// grows them by a third and counts against the request size limit). Uploaded
+// files live 48 hours; they are remembered per content hash so later
+// generations reuse them until shortly before they expire.
+
+/** Inputs larger than this are uploaded rather than inlined. */
+export const FILES_API_THRESHOLD_BYTES = 8 * 1024 * 1024;
+
+/** The API rejects larger requests; inline images count base64-encoded. */
+export const REQUEST_SIZE_LIMIT_BYTES = 20 * 1024 * 1024;
+
+// Left for the prompt, settings and JSON around the inline images
+const REQUEST_OVERHEAD_BYTES = 256 * 1024;
+
+/** Default PROXY_MAX_BODY_BYTES of /api/generate, which has no Files API to fall back on. */
+export const PROXY_REQUEST_SIZE_LIMIT_BYTES = 4 * 1024 * 1024;
+
+// Must be a multiple of the 256 KiB upload granularity; small enough for
+// progress to move steadily on slow connections.
+const CHUNK_BYTES = 1024 * 1024;
+
+// Files about to expire are uploaded again rather than risk a failed generation
+const REUSE_MARGIN_MS = 60 * 60 * 1000;
+
+const PROCESSING_POLL_MS = 1000;
+const PROCESSING_TIMEOUT_MS = 60_000;
+
+export const geminiFileSchema = z
+  .object({
+    name: z.string(),
+    uri: z.string(),
+    mimeType: z.string(),
+    sizeBytes: z.coerce.number().optional(),
+    expirationTime: z.string().optional(),
+    state: z.string().optional(),
+  })
+  .passthrough();
+
+export type GeminiFile = z.infer<typeof geminiFileSchema>;
+
+/** An uploaded file as remembered for reuse. */
+export interface TrackedFile {
+  name: string;
+  uri: string;
+  mimeType: string;
+  sizeBytes: number;
+  /** ISO date after which the API deletes the file. */
+  expirationTime: string;
+  /** SHA-256 of the content, hex. */
+  sha256: string;
+  /** Base URL and key fingerprint: files belong to the project of the key that uploaded them. */
+  owner: string;
+}
+
+const trackedFileSchema = z.object({
+  name: z.string(),
+  uri: z.string(),
+  mimeType: z.string(),
+  sizeBytes: z.number(),
+  expirationTime: z.string(),
+  sha256: z.string(),
+  owner: z.string(),
+});
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+export interface UploadOptions extends Omit<GeminiClientOptions, "model"> {
+  endpoint: EndpointProfile;
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+/**
+ * Only the Gemini API has the Files API: Vertex AI reads from Cloud Storage
+ * and the proxy has no upload route.
+ */
+export function supportsFilesApi(endpoint: EndpointProfile) {
+  return endpoint.kind === "gemini";
+}
+
+/**
+ * Indexes of the inputs, given their sizes in bytes, to send through the
+ * Files API: those above FILES_API_THRESHOLD_BYTES, then the largest of the
+ * rest until what stays inline fits in the request.
+ */
+export function filesApiInputs(sizes: number[], limit = REQUEST_SIZE_LIMIT_BYTES) {
+  const uploaded = new Set(
+    sizes.flatMap((size, i) => (size > FILES_API_THRESHOLD_BYTES ? [i] : []))
+  );
+  let inline = sizes.reduce(
+    (total, size, i) => (uploaded.has(i) ? total : total + base64Length(size)),
+    REQUEST_OVERHEAD_BYTES
+  );
+  const largestFirst = sizes.map((_, i) => i).sort((a, b) => sizes[b] - sizes[a]);
+  for (const i of largestFirst) {
+    if (inline <= limit) break;
+    if (uploaded.has(i)) continue;
+    uploaded.add(i);
+    inline -= base64Length(sizes[i]);
+  }
+  return uploaded;
+}
+
+/** Largest request body the endpoint accepts. */
+export function requestSizeLimit(endpoint: EndpointProfile) {
+  return endpoint.kind === "proxy" ? PROXY_REQUEST_SIZE_LIMIT_BYTES : REQUEST_SIZE_LIMIT_BYTES;
+}
+
+async function sha256Hex(data: BufferSource) {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function fileOwner(endpoint: EndpointProfile, apiKey: string) {
+  const key = (await sha256Hex(new TextEncoder().encode(apiKey))).slice(0, 16);
+  return `${endpoint.baseUrl.replace(/\/+$/, "")}#${key}`;
+}
+
+function parseFile(text: string): GeminiFile {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new GeminiResponseError("La respuesta de la Files API no es JSON válido.", text);
+  }
+  const camel = camelizeKeys(json) as { file?: unknown };
+  // Uploads answer { file: {...} }; files.get answers the file itself
+  const parsed = geminiFileSchema.safeParse(camel?.file ?? camel);
+  if (!parsed.success) {
+    throw new GeminiResponseError(
+      `Respuesta de la Files API con formato inesperado: ${parsed.error.message}`,
+      text
+    );
+  }
+  return parsed.data as GeminiFile;
+}
+
+/** `{baseUrl}/upload/{apiVersion}/files`, where resumable uploads start. */
+export function uploadStartUrl(endpoint: EndpointProfile, apiKey: string) {
+  const url = new URL(
+    `${endpoint.baseUrl.replace(/\/+$/, "")}/upload/${endpoint.apiVersion}/files`
+  );
+  if (endpoint.auth === "query" && apiKey) url.searchParams.set("key", apiKey);
+  return url.toString();
+}
+
+export async function getFile(
+  name: string,
+  { apiKey, endpoint, fetch: fetchFn = fetch, ...abort }: UploadOptions
+): Promise<GeminiFile> {
+  return withAbort(abort, async (signal) => {
+    const res = await fetchOrNetworkError(fetchFn, endpointUrl(endpoint, name, apiKey), {
+      headers: endpointHeaders(endpoint, apiKey),
+      signal,
+    });
+    const text = await res.text();
+    if (!res.ok) throw new GeminiApiError(res.status, res.statusText, text, res.headers);
+    return parseFile(text);
+  });
+}
+
+/**
+ * Uploads `bytes` with the resumable protocol, in chunks so progress can be
+ * reported, and waits until the file leaves the PROCESSING state.
+ */
+export async function uploadFile(
+  bytes: Uint8Array,
+  mimeType: string,
+  displayName: string,
+  { apiKey, endpoint, onProgress, fetch: fetchFn = fetch, ...abort }: UploadOptions
+): Promise<GeminiFile> {
+  const file = await withAbort(abort, async (signal) => {
+    const start = await fetchOrNetworkError(fetchFn, uploadStartUrl(endpoint, apiKey), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Goog-Upload-Protocol": "resumable",
+        "X-Goog-Upload-Command": "start",
+        "X-Goog-Upload-Header-Content-Length": String(bytes.byteLength),
+        "X-Goog-Upload-Header-Content-Type": mimeType,
+        ...endpointHeaders(endpoint, apiKey),
+      },
+      body: JSON.stringify({ file: { displayName } }),
+      signal,
+    });
+    if (!start.ok) {
+      throw new GeminiApiError(start.status, start.statusText, await start.text(), start.headers);
+    }
+    const uploadUrl = start.headers.get("x-goog-upload-url");
+    if (!uploadUrl) {
+      throw new GeminiResponseError(
+        "La Files API no devolvió la URL de subida (¿cabecera no expuesta por CORS?).",
+        ""
+      );
+    }
+
+    onProgress?.({ loaded: 0, total: bytes.byteLength });
+    for (let offset = 0; ; offset += CHUNK_BYTES) {
+      const chunk = bytes.subarray(offset, offset + CHUNK_BYTES);
+      const last = offset + chunk.byteLength >= bytes.byteLength;
+      const res = await fetchOrNetworkError(fetchFn, uploadUrl, {
+        method: "POST",
+        headers: {
+          "X-Goog-Upload-Command": last ? "upload, finalize" : "upload",
+          "X-Goog-Upload-Offset": String(offset),
+        },
+        body: chunk,
+        signal,
+      });
+      const text = await res.text();
+      if (!res.ok) throw new GeminiApiError(res.status, res.statusText, text, res.headers);
+      onProgress?.({ loaded: offset + chunk.byteLength, total: bytes.byteLength });
+      if (last) return parseFile(text);
+    }
+  });
+
+  const deadline = Date.now() + PROCESSING_TIMEOUT_MS;
+  let current = file;
+  while (current.state === "PROCESSING" && Date.now() < deadline) {
+    await sleep(PROCESSING_POLL_MS, abort.signal);
+    current = await getFile(current.name, { apiKey, endpoint, fetch: fetchFn, ...abort });
+  }
+  if (current.state === "FAILED") {
+    throw new GeminiResponseError(
+      "La Files API no pudo procesar la imagen.",
+      JSON.stringify(current)
+    );
+  }
+  if (current.state === "PROCESSING") {
+    throw new GeminiResponseError("La imagen subida sigue en proceso; inténtalo de nuevo.", "");
+  }
+  return current;
+}
+
+const FILES_STORAGE_KEY = "gemini_uploaded_files";
+
+/** Remembered uploads that have not expired yet; empty when unavailable or corrupt. */
+export function loadTrackedFiles(now = Date.now()): TrackedFile[] {
+  try {
+    const parsed = z
+      .array(trackedFileSchema)
+      .safeParse(JSON.parse(localStorage.getItem(FILES_STORAGE_KEY) ?? "[]"));
+    return parsed.success
+      ? (parsed.data as TrackedFile[]).filter((f) => Date.parse(f.expirationTime) > now)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveTrackedFiles(files: TrackedFile[]) {
+  localStorage.setItem(FILES_STORAGE_KEY, JSON.stringify(files));
+}
+
+/**
+ * Returns an uploaded copy of `bytes`: a remembered one when it is still valid
+ * for this endpoint and key, otherwise a fresh upload, which is remembered.
+ */
+export async function ensureUploaded(
+  bytes: Uint8Array,
+  mimeType: string,
+  displayName: string,
+  options: UploadOptions
+): Promise<{ file: TrackedFile; reused: boolean }> {
+  const [sha256, owner] = await Promise.all([
+    sha256Hex(bytes),
+    fileOwner(options.endpoint, options.apiKey),
+  ]);
+  const tracked = loadTrackedFiles();
+  const cached = tracked.find(
+    (f) =>
+      f.sha256 === sha256 &&
+      f.owner === owner &&
+      Date.parse(f.expirationTime) - Date.now() > REUSE_MARGIN_MS
+  );
+  if (cached) return { file: cached, reused: true };
+
+  const uploaded = await uploadFile(bytes, mimeType, displayName, options);
+  const file: TrackedFile = {
+    name: uploaded.name,
+    uri: uploaded.uri,
+    mimeType: uploaded.mimeType,
+    sizeBytes: uploaded.sizeBytes ?? bytes.byteLength,
+    // The API always sets it; 48 hours is its documented lifetime
+    expirationTime:
+      uploaded.expirationTime ?? new Date(Date.now() + 48 * 60 * 60 * 1000).toISOString(),
+    sha256,
+    owner,
+  };
+  try {
+    saveTrackedFiles([...tracked.filter((f) => f.name !== file.name), file]);
+  } catch {
+    // the upload still serves this generation
+  }
+  return { file, reused: false };
+}
@@ -0,0 +1,52 @@
+import { z } from "zod";
+import type { GenerationConfig } from "./types";
+
+export const ASPECT_RATIOS = [
+  "auto",
+  "1:1",
+  "2:3",
+  "3:2",
+  "3:4",
+  "4:3",
+  "4:5",
+  "5:4",
+  "9:16",
+  "16:9",
+  "21:9",
+] as const;
+
+export const RESPONSE_MODALITIES = ["TEXT", "IMAGE"] as const;
+
+// Form-level settings. "auto" aspect ratio means "let the model decide"
+// (it follows the input image when there is one) and is omitted on the wire.
+export const generationSettingsSchema = z.object({
+  temperature: z.number().min(0, "Mínimo 0").max(2, "Máximo 2"),
+  topP: z.number().min(0, "Mínimo 0").max(1, "Máximo 1"),
+  topK: z.number().int("Debe ser entero").min(1, "Mínimo 1").max(500, "Máximo 500"),
+  candidateCount: z.number().int("Debe ser entero").min(1, "Mínimo 1").max(8, "Máximo 8"),
+  maxOutputTokens: z.number().int("Debe ser entero").min(1, "Mínimo 1").max(65536, "Máximo 65536"),
+  responseModalities: z.array(z.enum(RESPONSE_MODALITIES)).min(1, "Elige al menos una modalidad"),
+  aspectRatio: z.enum(ASPECT_RATIOS),
+});
+
+export type GenerationSettings = z.infer<typeof generationSettingsSchema>;
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  temperature: 1,
+  topP: 0.95,
+  topK: 64,
+  candidateCount: 1,
+  maxOutputTokens: 32768,
+  responseModalities: ["TEXT", "IMAGE"],
+  aspectRatio: "auto",
+};
+
+export function toGenerationConfig({
+  aspectRatio,
+  ...settings
+}: GenerationSettings): GenerationConfig {
+  return {
+    ...settings,
+    imageConfig: aspectRatio === "auto" ? undefined : { aspectRatio },
+  };
+}
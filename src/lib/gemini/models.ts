@@ -0,0 +1,92 @@
+import { z } from "zod";
+import { withAbort, type GeminiClientOptions } from "./client";
+import { fetchOrNetworkError, GeminiApiError, GeminiResponseError } from "./errors";
+import { DEFAULT_ENDPOINT, endpointHeaders, endpointUrl } from "./endpoints";
+
+export const modelSchema = z
+  .object({
+    name: z.string(),
+    baseModelId: z.string().optional(),
+    version: z.string().optional(),
+    displayName: z.string().optional(),
+    description: z.string().optional(),
+    inputTokenLimit: z.number().optional(),
+    outputTokenLimit: z.number().optional(),
+    supportedGenerationMethods: z.array(z.string()).optional(),
+  })
+  .passthrough();
+
+export const listModelsResponseSchema = z.object({
+  models: z.array(modelSchema).optional(),
+  nextPageToken: z.string().optional(),
+});
+
+export type GeminiModel = z.infer<typeof modelSchema>;
+
+/** "models/gemini-2.5-flash-image" -> "gemini-2.5-flash-image" */
+export function modelId(model: Pick<GeminiModel, "name">) {
+  return model.name.replace(/^models\//, "");
+}
+
+/**
+ * models.list does not expose output modalities, so image-capable models are
+ * recognised by name ("...-image", "...-image-generation", "...-image-preview").
+ * Imagen models are excluded: they use :predict, not :generateContent.
+ */
+export function isImageGenerationModel(model: GeminiModel) {
+  const id = modelId(model);
+  return (
+    /(^|-)image(-|$)/.test(id) &&
+    !id.startsWith("imagen") &&
+    (model.supportedGenerationMethods ?? []).includes("generateContent")
+  );
+}
+
+export type ListModelsOptions = Omit<GeminiClientOptions, "model">;
+
+/** Fetches every page of models.list visible to the key. */
+export async function listModels({
+  apiKey,
+  endpoint = DEFAULT_ENDPOINT,
+  fetch: fetchFn = fetch,
+  ...abort
+}: ListModelsOptions): Promise<GeminiModel[]> {
+  return withAbort(abort, async (signal) => {
+    const models: GeminiModel[] = [];
+    let pageToken: string | undefined;
+    do {
+      const url = endpointUrl(endpoint, "models", apiKey, {
+        pageSize: "1000",
+        ...(pageToken ? { pageToken } : {}),
+      });
+      const res = await fetchOrNetworkError(fetchFn, url, {
+        headers: endpointHeaders(endpoint, apiKey),
+        signal,
+      });
+      const text = await res.text();
+      if (!res.ok) {
+        throw new GeminiApiError(res.status, res.statusText, text, res.headers);
+      }
+      let parsed;
+      try {
+        parsed = listModelsResponseSchema.safeParse(JSON.parse(text));
+      } catch {
+        throw new GeminiResponseError("La lista de modelos no es JSON válido.", text);
+      }
+      if (!parsed.success) {
+        throw new GeminiResponseError(
+          `Lista de modelos con formato inesperado: ${parsed.error.message}`,
+          text
+        );
+      }
+      models.push(...(parsed.data.models ?? []));
+      pageToken = parsed.data.nextPageToken;
+    } while (pageToken);
+    return models;
+  });
+}
+
+export async function listImageModels(options: ListModelsOptions) {
+  const models = await listModels(options);
+  return models.filter(isImageGenerationModel);
+}
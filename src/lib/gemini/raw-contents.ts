@@ -0,0 +1,142 @@
+import { z } from "zod";
+import { camelizeKeys } from "./client";
+import type { Content } from "./types";
+
+// Advanced mode: the whole `contents` array authored as JSON, for request
+// shapes the prompt-plus-images form can't express (several turns, images
+// between text parts, model turns with thought signatures...). Both the JSON
+// (camelCase) and the proto (snake_case) field names are accepted; the request
+// is sent in camelCase.
+
+export interface RawRequest {
+  contents: Content[];
+  systemInstruction?: Content;
+}
+
+const base64Schema = z
+  .string()
+  .min(1, "data está vacío")
+  .regex(/^[A-Za-z0-9+/]+={0,2}$/, "data debe ir en base64, sin el prefijo data:");
+
+// Strict so a misspelt key is reported instead of silently dropped
+const rawPartSchema = z
+  .object({
+    text: z.string().optional(),
+    inlineData: z
+      .object({ mimeType: z.string().min(1, "Falta mime_type"), data: base64Schema })
+      .strict()
+      .optional(),
+    fileData: z
+      .object({
+        mimeType: z.string().min(1, "Falta mime_type"),
+        fileUri: z.string().url("file_uri debe ser una URL"),
+      })
+      .strict()
+      .optional(),
+    // Model turns copied from a previous response carry these
+    thought: z.boolean().optional(),
+    thoughtSignature: z.string().optional(),
+  })
+  .strict()
+  .refine(
+    (part) =>
+      [part.text, part.inlineData, part.fileData].filter((v) => v !== undefined).length === 1,
+    "Cada parte necesita exactamente uno de text, inline_data o file_data"
+  );
+
+const rawContentSchema = z
+  .object({
+    role: z.enum(["user", "model"]).optional(),
+    parts: z.array(rawPartSchema).min(1, "Un contenido necesita al menos una parte"),
+  })
+  .strict();
+
+export const rawContentsSchema = z
+  .array(rawContentSchema)
+  .min(1, "contents necesita al menos un contenido");
+
+/** What Tab completes a partially typed part key into, in the snake_case the API documents. */
+export const PART_COMPLETIONS = [
+  { type: "text", insert: '"text": ""' },
+  { type: "inline_data", insert: '"inline_data": { "mime_type": "image/png", "data": "" }' },
+  { type: "file_data", insert: '"file_data": { "mime_type": "image/png", "file_uri": "" }' },
+] as const;
+
+export type PartCompletion = (typeof PART_COMPLETIONS)[number];
+
+/**
+ * Part types matching the key being typed just before `caret`: a quote
+ * followed by a prefix, where an object key may go (after `{` or `,`).
+ * Returns where the typed key starts so it can be replaced.
+ */
+export function completePartKey(text: string, caret: number) {
+  const before = text.slice(0, caret);
+  const match = /([{,]\s*)"([a-z_]*)$/.exec(before);
+  if (!match) return null;
+  const typed = match[2];
+  const options = PART_COMPLETIONS.filter((c) => c.type.startsWith(typed) && c.type !== typed);
+  if (options.length === 0) return null;
+  return { start: before.length - typed.length - 1, options };
+}
+
+/** The editor's starting point: the current prompt as a single user turn. */
+export function rawContentsFromPrompt(prompt: string) {
+  return JSON.stringify([{ role: "user", parts: [{ text: prompt }] }], null, 2);
+}
+
+function jsonErrorLocation(text: string, message: string) {
+  const position = Number(/position (\d+)/.exec(message)?.[1]);
+  if (!Number.isFinite(position)) return "";
+  const lines = text.slice(0, position).split("\n");
+  return ` (línea ${lines.length}, columna ${lines[lines.length - 1].length + 1})`;
+}
+
+function issuePath(path: (string | number)[]) {
+  return path.reduce<string>(
+    (out, key) => (typeof key === "number" ? `${out}[${key}]` : `${out}.${key}`),
+    "contents"
+  );
+}
+
+/** Parses and validates the editor's text; `error` explains the first problem found. */
+export function parseRawContents(
+  text: string
+): { contents: Content[]; error?: undefined } | { contents?: undefined; error: string } {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return { error: `JSON no válido${jsonErrorLocation(text, message)}: ${message}` };
+  }
+  const parsed = rawContentsSchema.safeParse(camelizeKeys(json));
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const message =
+      issue.code === "unrecognized_keys"
+        ? `clave no admitida: ${issue.keys.join(", ")}`
+        : issue.message;
+    return { error: `${issuePath(issue.path)}: ${message}` };
+  }
+  return { contents: parsed.data as Content[] };
+}
+
+/**
+ * Appends inline images to the last content, keeping the text as it is when
+ * it is not valid JSON yet (returns null then).
+ */
+export function appendInlineImages(text: string, images: { mimeType: string; data: string }[]) {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(json) || json.length === 0) return null;
+  const last = json[json.length - 1];
+  if (!last || typeof last !== "object" || !Array.isArray(last.parts)) return null;
+  last.parts.push(
+    ...images.map(({ mimeType, data }) => ({ inline_data: { mime_type: mimeType, data } }))
+  );
+  return JSON.stringify(json, null, 2);
+}
@@ -0,0 +1,126 @@
+import { GeminiApiError, HttpStatusError, isAbortError, NetworkError } from "./errors";
+
+export interface RetryOptions {
+  /** Retries after the first attempt; 0 disables retrying. */
+  maxRetries: number;
+  baseDelayMs: number;
+  /** Longest wait between attempts; a server asking for more is not retried. */
+  maxDelayMs: number;
+  signal?: AbortSignal;
+  /** Called before waiting for the next attempt. */
+  onRetry?: (retry: RetryAttempt) => void;
+}
+
+export interface RetryAttempt {
+  /** Number of the attempt about to be made (2 for the first retry). */
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  error: unknown;
+}
+
+export const DEFAULT_RETRY_OPTIONS: Omit<RetryOptions, "signal" | "onRetry"> = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+};
+
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Transient failures: rate limiting, server errors and network errors. A spent
+ * quota, Google's or a proxy's daily one, is not transient: it only comes back
+ * at the reset.
+ */
+export function isRetryableError(e: unknown) {
+  if (isAbortError(e)) return false;
+  if (e instanceof GeminiApiError && e.kind === "quota_exhausted") return false;
+  if (e instanceof HttpStatusError) return RETRYABLE_STATUS.has(e.status);
+  return e instanceof NetworkError;
+}
+
+function parseDuration(value: string): number | null {
+  // google.protobuf.Duration JSON form, e.g. "13s" or "0.5s"
+  const match = value.match(/^(\d+(?:\.\d+)?)s$/);
+  return match ? Math.round(parseFloat(match[1]) * 1000) : null;
+}
+
+/**
+ * Delay the server asked for, from the Retry-After header (seconds or HTTP
+ * date) or a google.rpc.RetryInfo entry in the error details.
+ */
+export function serverRetryDelayMs(e: unknown): number | null {
+  if (!(e instanceof HttpStatusError)) return null;
+
+  const header = e.headers.get("retry-after");
+  if (header) {
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(header);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  try {
+    const details = JSON.parse(e.body)?.error?.details;
+    if (Array.isArray(details)) {
+      for (const detail of details) {
+        if (
+          typeof detail?.["@type"] === "string" &&
+          detail["@type"].endsWith("google.rpc.RetryInfo") &&
+          typeof detail.retryDelay === "string"
+        ) {
+          const ms = parseDuration(detail.retryDelay);
+          if (ms !== null) return ms;
+        }
+      }
+    }
+  } catch {
+    // body is not JSON
+  }
+  return null;
+}
+
+/** Exponential backoff with jitter in the upper half of the window. */
+export function backoffDelayMs(retry: number, { baseDelayMs, maxDelayMs }: RetryOptions) {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (retry - 1));
+  return Math.round(ceiling / 2 + (Math.random() * ceiling) / 2);
+}
+
+/** Resolves after `ms`, or rejects with an AbortError as soon as `signal` fires. */
+export function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Aborted", "AbortError"));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export async function withRetry<T>(
+  task: (attempt: number) => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  const maxAttempts = Math.max(0, options.maxRetries) + 1;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (e) {
+      if (attempt >= maxAttempts || !isRetryableError(e)) throw e;
+      const requestedMs = serverRetryDelayMs(e);
+      // Retrying sooner than the server asked would fail again: past the cap, give up
+      if (requestedMs !== null && requestedMs > options.maxDelayMs) throw e;
+      const delayMs = requestedMs ?? backoffDelayMs(attempt, options);
+      options.onRetry?.({ attempt: attempt + 1, maxAttempts, delayMs, error: e });
+      await sleep(delayMs, options.signal);
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import { z } from "zod";
+import type { SafetySetting } from "./types";
+
+export const HARM_CATEGORIES = [
+  "HARM_CATEGORY_HARASSMENT",
+  "HARM_CATEGORY_HATE_SPEECH",
+  "HARM_CATEGORY_SEXUALLY_EXPLICIT",
+  "HARM_CATEGORY_DANGEROUS_CONTENT",
+  "HARM_CATEGORY_CIVIC_INTEGRITY",
+] as const;
+
+export const HARM_BLOCK_THRESHOLDS = [
+  "HARM_BLOCK_THRESHOLD_UNSPECIFIED",
+  "BLOCK_LOW_AND_ABOVE",
+  "BLOCK_MEDIUM_AND_ABOVE",
+  "BLOCK_ONLY_HIGH",
+  "BLOCK_NONE",
+  "OFF",
+] as const;
+
+export type HarmCategory = (typeof HARM_CATEGORIES)[number];
+export type HarmBlockThreshold = (typeof HARM_BLOCK_THRESHOLDS)[number];
+
+export const HARM_CATEGORY_LABELS: Record<HarmCategory, string> = {
+  HARM_CATEGORY_HARASSMENT: "Acoso",
+  HARM_CATEGORY_HATE_SPEECH: "Discurso de odio",
+  HARM_CATEGORY_SEXUALLY_EXPLICIT: "Contenido sexual explícito",
+  HARM_CATEGORY_DANGEROUS_CONTENT: "Contenido peligroso",
+  HARM_CATEGORY_CIVIC_INTEGRITY: "Integridad cívica",
+};
+
+export const HARM_BLOCK_THRESHOLD_LABELS: Record<HarmBlockThreshold, string> = {
+  HARM_BLOCK_THRESHOLD_UNSPECIFIED: "Por defecto del modelo",
+  BLOCK_LOW_AND_ABOVE: "Bloquear riesgo bajo y superior",
+  BLOCK_MEDIUM_AND_ABOVE: "Bloquear riesgo medio y superior",
+  BLOCK_ONLY_HIGH: "Bloquear solo riesgo alto",
+  BLOCK_NONE: "No bloquear",
+  OFF: "Filtro desactivado",
+};
+
+export type SafetyThresholds = Record<HarmCategory, HarmBlockThreshold>;
+
+export interface SafetyProfile {
+  name: string;
+  thresholds: SafetyThresholds;
+  /** Built-in profiles cannot be overwritten or deleted. */
+  builtIn?: boolean;
+}
+
+function allCategories(threshold: HarmBlockThreshold): SafetyThresholds {
+  return Object.fromEntries(HARM_CATEGORIES.map((c) => [c, threshold])) as SafetyThresholds;
+}
+
+export const DEFAULT_SAFETY_PROFILE: SafetyProfile = {
+  name: "Por defecto",
+  thresholds: allCategories("HARM_BLOCK_THRESHOLD_UNSPECIFIED"),
+  builtIn: true,
+};
+
+export const BUILT_IN_SAFETY_PROFILES: SafetyProfile[] = [
+  DEFAULT_SAFETY_PROFILE,
+  {
+    name: "Estricto (trabajo para clientes)",
+    thresholds: allCategories("BLOCK_LOW_AND_ABOVE"),
+    builtIn: true,
+  },
+  {
+    name: "Permisivo",
+    thresholds: allCategories("BLOCK_ONLY_HIGH"),
+    builtIn: true,
+  },
+];
+
+const thresholdSchema = z.enum(HARM_BLOCK_THRESHOLDS);
+
+export const safetyProfileSchema = z.object({
+  name: z.string().min(1),
+  thresholds: z.object({
+    HARM_CATEGORY_HARASSMENT: thresholdSchema,
+    HARM_CATEGORY_HATE_SPEECH: thresholdSchema,
+    HARM_CATEGORY_SEXUALLY_EXPLICIT: thresholdSchema,
+    HARM_CATEGORY_DANGEROUS_CONTENT: thresholdSchema,
+    HARM_CATEGORY_CIVIC_INTEGRITY: thresholdSchema,
+  }),
+});
+
+/**
+ * Request form of the thresholds. Categories left at the model default are
+ * omitted so the API applies its own defaults for them.
+ */
+export function toSafetySettings(thresholds: SafetyThresholds): SafetySetting[] {
+  return HARM_CATEGORIES.filter((c) => thresholds[c] !== "HARM_BLOCK_THRESHOLD_UNSPECIFIED").map(
+    (category) => ({ category, threshold: thresholds[category] })
+  );
+}
+
+/** Name of the profile whose thresholds match exactly, if any. */
+export function matchSafetyProfile(thresholds: SafetyThresholds, profiles: SafetyProfile[]) {
+  return (
+    profiles.find((p) => HARM_CATEGORIES.every((c) => p.thresholds[c] === thresholds[c]))?.name ??
+    null
+  );
+}
+
+const PROFILES_STORAGE_KEY = "gemini_safety_profiles";
+
+/** User-saved profiles from localStorage; empty when unavailable or corrupt. */
+export function loadCustomSafetyProfiles(): SafetyProfile[] {
+  try {
+    const parsed = z
+      .array(safetyProfileSchema)
+      .safeParse(JSON.parse(localStorage.getItem(PROFILES_STORAGE_KEY) ?? "[]"));
+    return parsed.success ? (parsed.data as SafetyProfile[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomSafetyProfiles(profiles: SafetyProfile[]) {
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+}
@@ -0,0 +1,166 @@
+import {
+  camelizeKeys,
+  DEFAULT_MODEL,
+  toGenerateResult,
+  withAbort,
+  type GeminiClientOptions,
+} from "./client";
+import { fetchOrNetworkError, GeminiApiError, GeminiResponseError } from "./errors";
+import {
+  DEFAULT_ENDPOINT,
+  endpointHeaders,
+  modelMethodUrl,
+  type EndpointProfile,
+} from "./endpoints";
+import {
+  generateContentResponseSchema,
+  type Candidate,
+  type GenerateContentRequest,
+  type GenerateContentResponse,
+  type GenerateResult,
+  type ResponsePart,
+} from "./types";
+
+export function streamGenerateContentUrl(
+  model: string,
+  endpoint: EndpointProfile = DEFAULT_ENDPOINT,
+  apiKey = ""
+) {
+  return modelMethodUrl(endpoint, model, "streamGenerateContent", apiKey);
+}
+
+function appendPart(parts: ResponsePart[], part: ResponsePart) {
+  const last = parts[parts.length - 1];
+  // Text arrives token by token; glue consecutive plain text chunks together.
+  if (
+    last &&
+    typeof last.text === "string" &&
+    typeof part.text === "string" &&
+    !last.inlineData &&
+    !part.inlineData &&
+    !!last.thought === !!part.thought
+  ) {
+    parts[parts.length - 1] = { ...last, text: last.text + part.text };
+    return;
+  }
+  parts.push(part);
+}
+
+/** Folds one streamed chunk into the accumulated response. */
+export function mergeStreamChunk(
+  acc: GenerateContentResponse,
+  chunk: GenerateContentResponse
+): GenerateContentResponse {
+  const candidates: Candidate[] = [...(acc.candidates ?? [])];
+  (chunk.candidates ?? []).forEach((candidate, i) => {
+    const index = candidate.index ?? i;
+    const pos = candidates.findIndex((c, j) => (c.index ?? j) === index);
+    const previous = pos >= 0 ? candidates[pos] : undefined;
+    const parts = [...(previous?.content?.parts ?? [])];
+    for (const part of candidate.content?.parts ?? []) appendPart(parts, part);
+    const merged: Candidate = {
+      ...previous,
+      ...candidate,
+      index,
+      finishReason: candidate.finishReason ?? previous?.finishReason,
+      content: { ...previous?.content, ...candidate.content, parts },
+    };
+    if (pos >= 0) candidates[pos] = merged;
+    else candidates.push(merged);
+  });
+
+  return {
+    ...acc,
+    ...chunk,
+    candidates,
+    promptFeedback: acc.promptFeedback ?? chunk.promptFeedback,
+    usageMetadata: chunk.usageMetadata ?? acc.usageMetadata,
+  };
+}
+
+/** Yields the `data:` payload of each server-sent event in the body. */
+async function* readSseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? "" : (events.pop() ?? "");
+      for (const event of events) {
+        const data = event
+          .split(/\r?\n/)
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice(5).replace(/^ /, ""))
+          .join("\n");
+        if (data) yield data;
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export interface StreamOptions extends GeminiClientOptions {
+  /** Called after every chunk with everything received so far. */
+  onUpdate?: (partial: GenerateResult) => void;
+}
+
+export async function streamGenerateContent(
+  request: GenerateContentRequest,
+  {
+    apiKey,
+    model = DEFAULT_MODEL,
+    endpoint = DEFAULT_ENDPOINT,
+    onUpdate,
+    fetch: fetchFn = fetch,
+    ...abort
+  }: StreamOptions
+): Promise<GenerateResult> {
+  return withAbort(abort, async (signal) => {
+    const res = await fetchOrNetworkError(
+      fetchFn,
+      streamGenerateContentUrl(model, endpoint, apiKey),
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...endpointHeaders(endpoint, apiKey),
+        },
+        body: JSON.stringify(request),
+        signal,
+      }
+    );
+
+    if (!res.ok) {
+      throw new GeminiApiError(res.status, res.statusText, await res.text(), res.headers);
+    }
+    if (!res.body) {
+      throw new GeminiResponseError("La respuesta de streaming no tiene cuerpo.", "");
+    }
+
+    let acc: GenerateContentResponse = {};
+    for await (const data of readSseData(res.body)) {
+      let json: unknown;
+      try {
+        json = JSON.parse(data);
+      } catch {
+        throw new GeminiResponseError("Fragmento de streaming no es JSON válido.", data);
+      }
+      const parsed = generateContentResponseSchema.safeParse(camelizeKeys(json));
+      if (!parsed.success) {
+        throw new GeminiResponseError(
+          `Fragmento de streaming con formato inesperado: ${parsed.error.message}`,
+          data
+        );
+      }
+      acc = mergeStreamChunk(acc, parsed.data);
+      onUpdate?.(toGenerateResult(acc));
+    }
+
+    return toGenerateResult(acc);
+  });
+}
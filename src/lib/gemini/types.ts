@@ -0,0 +1,172 @@
+import { z } from "zod";
+
+// ---------------------------------------------------------------------------
+// Request
+// ---------------------------------------------------------------------------
+
+export interface TextPart {
+  text: string;
+}
+
+export interface InlineDataPart {
+  inlineData: {
+    mimeType: string;
+    data: string;
+  };
+}
+
+/** A file uploaded through the Files API, referenced instead of inlined. */
+export interface FileDataPart {
+  fileData: {
+    mimeType: string;
+    fileUri: string;
+  };
+}
+
+export type RequestPart = TextPart | InlineDataPart | FileDataPart;
+
+export interface Content {
+  role?: "user" | "model";
+  parts: RequestPart[];
+}
+
+export type ResponseModality = "TEXT" | "IMAGE";
+
+export interface ImageConfig {
+  aspectRatio?: string;
+}
+
+export interface GenerationConfig {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  candidateCount?: number;
+  maxOutputTokens?: number;
+  responseModalities?: ResponseModality[];
+  imageConfig?: ImageConfig;
+}
+
+export interface SafetySetting {
+  category: string;
+  threshold: string;
+}
+
+export interface GenerateContentRequest {
+  contents: Content[];
+  systemInstruction?: Content;
+  generationConfig?: GenerationConfig;
+  safetySettings?: SafetySetting[];
+}
+
+// ---------------------------------------------------------------------------
+// Response
+// ---------------------------------------------------------------------------
+
+// Schemas are permissive (passthrough) on purpose: the API adds fields such as
+// thoughtSignature regularly and we only want to fail on the shape we rely on.
+
+export const inlineDataSchema = z.object({
+  mimeType: z.string(),
+  data: z.string(),
+});
+
+export const responsePartSchema = z
+  .object({
+    text: z.string().optional(),
+    inlineData: inlineDataSchema.optional(),
+    thought: z.boolean().optional(),
+    thoughtSignature: z.string().optional(),
+  })
+  .passthrough();
+
+export const candidateSchema = z
+  .object({
+    content: z
+      .object({
+        role: z.string().optional(),
+        parts: z.array(responsePartSchema).optional(),
+      })
+      .passthrough()
+      .optional(),
+    finishReason: z.string().optional(),
+    index: z.number().optional(),
+  })
+  .passthrough();
+
+export const usageMetadataSchema = z
+  .object({
+    promptTokenCount: z.number().optional(),
+    candidatesTokenCount: z.number().optional(),
+    totalTokenCount: z.number().optional(),
+  })
+  .passthrough();
+
+export const promptFeedbackSchema = z
+  .object({
+    blockReason: z.string().optional(),
+  })
+  .passthrough();
+
+export const generateContentResponseSchema = z
+  .object({
+    candidates: z.array(candidateSchema).optional(),
+    promptFeedback: promptFeedbackSchema.optional(),
+    usageMetadata: usageMetadataSchema.optional(),
+    modelVersion: z.string().optional(),
+    responseId: z.string().optional(),
+  })
+  .passthrough();
+
+export type ResponsePart = z.infer<typeof responsePartSchema>;
+export type Candidate = z.infer<typeof candidateSchema>;
+export type UsageMetadata = z.infer<typeof usageMetadataSchema>;
+export type PromptFeedback = z.infer<typeof promptFeedbackSchema>;
+export type GenerateContentResponse = z.infer<typeof generateContentResponseSchema>;
+
+// ---------------------------------------------------------------------------
+// Parsed result
+// ---------------------------------------------------------------------------
+
+export type ResultPart =
+  | { kind: "text"; text: string }
+  | { kind: "image"; mimeType: string; data: string };
+
+export interface ResultCandidate {
+  index: number;
+  finishReason?: string;
+  parts: ResultPart[];
+}
+
+export interface GenerateResult {
+  candidates: ResultCandidate[];
+  promptFeedback?: PromptFeedback;
+  usage?: UsageMetadata;
+  modelVersion?: string;
+  /** Validated response as returned by the API. */
+  raw: GenerateContentResponse;
+}
+
+// ---------------------------------------------------------------------------
+// Generation metadata
+// ---------------------------------------------------------------------------
+
+/** What produced a result; kept alongside every generated image. */
+export interface GenerationMetadata {
+  /** Label of the image provider that produced the result. */
+  provider?: string;
+  model: string;
+  /** Name of the endpoint profile the request went through. */
+  endpoint?: string;
+  /** modelVersion reported by the API, when present. */
+  modelVersion?: string;
+  createdAt: string;
+  generationConfig?: GenerationConfig;
+  /** Name of the safety profile in use, or null for ad-hoc thresholds. */
+  safetyProfile?: string | null;
+  /** Safety settings as sent; empty means model defaults for every category. */
+  safetySettings?: SafetySetting[];
+  /** Settings of non-Gemini providers (size, steps...), as sent. */
+  providerOptions?: Record<string, unknown>;
+  /** URL each input image was imported from, in order; null for local files. */
+  inputImageUrls?: (string | null)[];
+}
@@ -0,0 +1,165 @@
+import { groupResultEntries, type ResultEntry } from "./gemini/client";
+import { explainBlockedResult } from "./gemini/errors";
+import { DEFAULT_RETRY_OPTIONS, withRetry, type RetryAttempt } from "./gemini/retry";
+import type { GenerateResult, GenerationMetadata } from "./gemini/types";
+import { formatLabel } from "./input-formats";
+import type { GeminiProviderSettings } from "./providers/gemini";
+import {
+  EXTERNAL_PROVIDER_SCHEMAS,
+  generateWithProvider,
+  IMAGE_PROVIDERS,
+  type ExternalProviderSettings,
+} from "./providers/registry";
+import type { InputImage, ProviderRequest } from "./providers/types";
+
+// One generation as the web app and the CLI run it: validation, the provider
+// call with retries, and the grouping and metadata of what comes back.
+
+interface JobBase {
+  prompt: string;
+  images: InputImage[];
+  apiKey: string;
+}
+
+export interface GeminiJob extends JobBase {
+  providerId: "gemini";
+  model: string;
+  settings: GeminiProviderSettings;
+  /** Name of the safety profile matching the thresholds, or null for ad-hoc ones. */
+  safetyProfile?: string | null;
+}
+
+type ExternalProviderId = keyof ExternalProviderSettings;
+
+/** Other providers carry the model in their settings. */
+export type ExternalJob = {
+  [Id in ExternalProviderId]: JobBase & { providerId: Id; settings: ExternalProviderSettings[Id] };
+}[ExternalProviderId];
+
+export type GenerationJob = GeminiJob | ExternalJob;
+
+export function jobModel(job: GenerationJob) {
+  return job.providerId === "gemini" ? job.model : job.settings.model;
+}
+
+/** Why the job cannot be sent as is, or null when it can. */
+export function validateJob(job: GenerationJob): string | null {
+  const provider = IMAGE_PROVIDERS[job.providerId];
+  const { capabilities } = provider;
+  // Other providers may run keyless (local servers); they answer 401 otherwise
+  if (job.providerId === "gemini" && !job.apiKey && job.settings.endpoint.auth !== "none") {
+    return "Introduce la API key antes de generar la imagen.";
+  }
+  const authored = job.providerId === "gemini" && !!job.settings.contents;
+  if (!job.prompt && !authored) return "Escribe un prompt para generar la imagen.";
+  if (job.images.length > 0 && !capabilities.imageEdit) {
+    return `${provider.label} no admite imágenes de entrada.`;
+  }
+  if (job.images.length > 1 && !capabilities.multipleInputs) {
+    return `${provider.label} solo admite una imagen de entrada.`;
+  }
+  if (!capabilities.textToImage && job.images.length === 0) {
+    return `${provider.label} necesita una imagen de entrada.`;
+  }
+  const unsupported = job.images.findIndex(
+    (image) => !capabilities.inputFormats.includes(image.mimeType)
+  );
+  if (unsupported >= 0) {
+    const label = formatLabel(job.images[unsupported].mimeType);
+    return `La imagen de entrada ${unsupported + 1} es ${label}, que ${provider.label} no admite.`;
+  }
+  if (job.providerId !== "gemini") {
+    const parsed = EXTERNAL_PROVIDER_SCHEMAS[job.providerId].safeParse(job.settings);
+    if (!parsed.success) {
+      return parsed.error.issues[0]?.message ?? "Ajustes del proveedor no válidos.";
+    }
+  }
+  return null;
+}
+
+/**
+ * The prompt with the role of each labelled input image appended, numbered in
+ * the order the images are attached, so the model knows which one is which.
+ */
+export function promptWithImageRoles(prompt: string, images: InputImage[]) {
+  const roles = images.flatMap(({ role }, i) =>
+    role?.trim() ? [`- Image ${i + 1}: ${role.trim()}`] : []
+  );
+  if (roles.length === 0) return prompt;
+  return `${prompt}\n\nReference images, in the order they are attached:\n${roles.join("\n")}`;
+}
+
+/** What is recorded next to every result of the job. */
+export function generationMetadata(
+  job: GenerationJob,
+  result: GenerateResult,
+  createdAt: Date
+): GenerationMetadata {
+  const gemini = job.providerId === "gemini" ? job : undefined;
+  const external = job.providerId === "gemini" ? undefined : job.settings;
+  const inputImageUrls = job.images.map((image) => image.sourceUrl ?? null);
+  return {
+    provider: IMAGE_PROVIDERS[job.providerId].label,
+    model: jobModel(job),
+    endpoint: gemini
+      ? gemini.settings.endpoint.name
+      : external && "baseUrl" in external
+        ? external.baseUrl
+        : undefined,
+    modelVersion: result.modelVersion,
+    createdAt: createdAt.toISOString(),
+    generationConfig: gemini?.settings.generationConfig,
+    safetyProfile: gemini?.safetyProfile,
+    safetySettings: gemini?.settings.safetySettings,
+    providerOptions: external,
+    inputImageUrls: inputImageUrls.some(Boolean) ? inputImageUrls : undefined,
+  };
+}
+
+export interface GenerationOptions {
+  /** Retries after the first attempt; defaults to DEFAULT_RETRY_OPTIONS. */
+  maxRetries?: number;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  onRetry?: (retry: RetryAttempt) => void;
+  /** Streams partial results; ignored by providers that cannot stream. */
+  onUpdate?: (partial: GenerateResult) => void;
+  fetch?: typeof fetch;
+}
+
+export interface GenerationOutcome {
+  result: GenerateResult;
+  /** One entry per image, or a text-only one per candidate without images. */
+  entries: ResultEntry[];
+  /** Why the response came back blocked or incomplete; empty when it finished normally. */
+  blocked: string[];
+}
+
+/** Sends a validated job, retrying transient failures. */
+export async function runGeneration(
+  job: GenerationJob,
+  {
+    maxRetries = DEFAULT_RETRY_OPTIONS.maxRetries,
+    signal,
+    timeoutMs,
+    onRetry,
+    onUpdate,
+    fetch,
+  }: GenerationOptions = {}
+): Promise<GenerationOutcome> {
+  const request: ProviderRequest = {
+    prompt: promptWithImageRoles(job.prompt, job.images),
+    images: job.images,
+    model: jobModel(job),
+    apiKey: job.apiKey,
+    signal,
+    timeoutMs,
+    onUpdate: IMAGE_PROVIDERS[job.providerId].capabilities.streaming ? onUpdate : undefined,
+    fetch,
+  };
+  const result = await withRetry(
+    () => generateWithProvider(job.providerId, request, job.settings),
+    { ...DEFAULT_RETRY_OPTIONS, maxRetries: Math.max(0, maxRetries), signal, onRetry }
+  );
+  return { result, entries: groupResultEntries(result), blocked: explainBlockedResult(result) };
+}
@@ -0,0 +1,107 @@
+import { endpointHeaders, proxyImageUrl, type EndpointProfile } from "./gemini/endpoints";
+import { extensionForMime, formatByteSize, resolveImageMime, sniffImageMime } from "./image";
+
+// Where input images come from besides the file picker: drops onto the
+// generator, clipboard pastes and remote URLs. Each ends up as a File so the
+// component loads all of them the same way.
+
+/** Largest remote image accepted; preprocessing or the Files API take it from there. */
+export const MAX_REMOTE_IMAGE_BYTES = 20 * 1024 * 1024;
+
+/** How long a remote image may take to download before the import gives up. */
+export const IMAGE_IMPORT_TIMEOUT_MS = 30_000;
+
+/** Whether a drag may bring an image: files, or a link or image from another page. */
+export function mayCarryImage(data: DataTransfer | null) {
+  return !!data && (data.types.includes("Files") || data.types.includes("text/uri-list"));
+}
+
+/**
+ * Image files carried by a drop or paste, in order. Untyped files are kept:
+ * some systems do not know HEIC, and the bytes decide once they are loaded.
+ */
+export function imageFiles(data: DataTransfer | null) {
+  return Array.from(data?.files ?? []).filter(
+    (file) => !file.type || file.type.startsWith("image/")
+  );
+}
+
+/**
+ * The image URL of a drop without files: the `src` of an image dragged from a
+ * web page, otherwise the first http(s) or data: URL in the drop.
+ */
+export function droppedImageUrl(data: DataTransfer | null) {
+  if (!data) return null;
+  const html = data.getData("text/html");
+  if (html) {
+    const src = new DOMParser().parseFromString(html, "text/html").querySelector("img")?.src;
+    if (src && /^(https?|data):/.test(src)) return src;
+  }
+  const candidates = [
+    ...data
+      .getData("text/uri-list")
+      .split(/\r?\n/)
+      .filter((line) => !line.startsWith("#")),
+    data.getData("text/plain"),
+  ];
+  return candidates.map((c) => c.trim()).find((c) => /^(https?|data):\S+$/.test(c)) ?? null;
+}
+
+/** A readable name for a fetched image: the last segment of its path. */
+export function fileNameFromUrl(url: string, mimeType: string) {
+  if (url.startsWith("data:")) return `imagen.${extensionForMime(mimeType)}`;
+  try {
+    const segment = decodeURIComponent(new URL(url).pathname.split("/").pop() ?? "");
+    return segment || "imagen";
+  } catch {
+    return "imagen";
+  }
+}
+
+export interface FetchImageOptions {
+  signal?: AbortSignal;
+  /**
+   * A proxy endpoint whose /api/fetch-image downloads the image server-side,
+   * for hosts that send no CORS headers. data: URLs are always read locally.
+   */
+  proxy?: { endpoint: EndpointProfile; apiKey: string };
+}
+
+// The proxy explains refusals in the Google error shape
+async function failureMessage(res: Response) {
+  try {
+    const message = (await res.json())?.error?.message;
+    if (typeof message === "string" && message) return message;
+  } catch {
+    // not JSON: the status is all there is
+  }
+  return `El servidor respondió ${res.status} ${res.statusText}`.trim();
+}
+
+function tooLarge(bytes: number) {
+  return new Error(
+    `La imagen ocupa ${formatByteSize(bytes)}; el máximo es ${formatByteSize(MAX_REMOTE_IMAGE_BYTES)}.`
+  );
+}
+
+/** Downloads `url` as a File; fails when the answer is not an image or is too large. */
+export async function fetchImageFile(url: string, { signal, proxy }: FetchImageOptions = {}) {
+  const res =
+    proxy && !url.startsWith("data:")
+      ? await fetch(proxyImageUrl(proxy.endpoint, url), {
+          headers: endpointHeaders(proxy.endpoint, proxy.apiKey),
+          signal,
+        })
+      : await fetch(url, { signal });
+  if (!res.ok) throw new Error(await failureMessage(res));
+  const declaredLength = Number(res.headers.get("content-length"));
+  if (declaredLength > MAX_REMOTE_IMAGE_BYTES) throw tooLarge(declaredLength);
+  const blob = await res.blob();
+  if (blob.size > MAX_REMOTE_IMAGE_BYTES) throw tooLarge(blob.size);
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  if (!blob.type.startsWith("image/") && !sniffImageMime(bytes)) {
+    throw new Error(`La URL no devuelve una imagen (${blob.type || "tipo desconocido"}).`);
+  }
+  const mimeType = resolveImageMime(bytes, blob.type);
+  return new File([blob], fileNameFromUrl(url, mimeType), { type: mimeType });
+}
@@ -0,0 +1,106 @@
+// Helpers for working with raw image bytes independently of what the
+// browser or the API claims the format to be.
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "image/heic": "heic",
+  "image/heif": "heif",
+  "image/avif": "avif",
+  "image/bmp": "bmp",
+  "image/tiff": "tiff",
+  "image/svg+xml": "svg",
+};
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const len = binary.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Chunked so large images don't overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0) {
+  if (bytes.length < offset + signature.length) return false;
+  return signature.every((b, i) => bytes[offset + i] === b);
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number) {
+  return String.fromCharCode(...bytes.subarray(start, end));
+}
+
+/** Detects the image format from its leading bytes. Returns null when unknown. */
+export function sniffImageMime(bytes: Uint8Array): string | null {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WEBP") return "image/webp";
+  if (ascii(bytes, 0, 6) === "GIF87a" || ascii(bytes, 0, 6) === "GIF89a") return "image/gif";
+  if (startsWith(bytes, [0x42, 0x4d])) return "image/bmp";
+  if (startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) || startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])) {
+    return "image/tiff";
+  }
+  if (ascii(bytes, 4, 8) === "ftyp") {
+    const brand = ascii(bytes, 8, 12);
+    if (brand === "avif" || brand === "avis") return "image/avif";
+    if (["heic", "heix", "hevc", "hevx"].includes(brand)) return "image/heic";
+    if (["mif1", "msf1", "heim", "heis"].includes(brand)) {
+      // Many AVIF files declare the generic mif1 brand and list avif only as compatible
+      const boxSize = ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0;
+      const boxEnd = Math.min(bytes.length, boxSize);
+      for (let offset = 16; offset + 4 <= boxEnd; offset += 4) {
+        const compatible = ascii(bytes, offset, offset + 4);
+        if (compatible === "avif" || compatible === "avis") return "image/avif";
+      }
+      return "image/heif";
+    }
+  }
+  // SVG is text: an XML prolog or comment may come before the root element
+  const head = ascii(bytes, 0, Math.min(bytes.length, 1024)).trimStart();
+  if (head.startsWith("<") && /<svg[\s>]/.test(head)) return "image/svg+xml";
+  return null;
+}
+
+/**
+ * Picks the MIME type for image bytes: the declared type when it is a concrete
+ * image type, otherwise whatever the magic bytes say, otherwise PNG.
+ */
+export function resolveImageMime(bytes: Uint8Array, declared?: string | null): string {
+  const normalized = declared?.toLowerCase().split(";")[0].trim();
+  if (normalized && normalized.startsWith("image/") && normalized !== "image/*") {
+    return normalized;
+  }
+  return sniffImageMime(bytes) ?? "image/png";
+}
+
+/** Length of the base64 encoding of `bytes` bytes, as inlined in a request. */
+export function base64Length(bytes: number) {
+  return Math.ceil(bytes / 3) * 4;
+}
+
+export function formatByteSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export function extensionForMime(mimeType: string): string {
+  return MIME_EXTENSIONS[mimeType] ?? mimeType.split("/")[1]?.split("+")[0] ?? "bin";
+}
+
+export function base64ToBlob(base64: string, declaredMime?: string | null): Blob {
+  const bytes = base64ToBytes(base64);
+  return new Blob([bytes], { type: resolveImageMime(bytes, declaredMime) });
+}
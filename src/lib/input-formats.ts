@@ -0,0 +1,116 @@
+import { extensionForMime, sniffImageMime } from "./image";
+
+// Input images are checked against the formats the provider accepts before any
+// request is sent. The format comes from the magic bytes, not from the file
+// name or what the browser guessed, so a renamed TIFF or an untyped HEIC from
+// a phone is caught here instead of as an opaque API error. Formats the
+// provider does not take are converted when the browser can decode them.
+
+// Enough for every signature sniffImageMime knows, including an SVG prolog
+const SNIFF_BYTES = 1024;
+
+// Photographic formats become JPEG; the rest keep transparency as PNG
+const PHOTO_FORMATS = ["image/heic", "image/heif", "image/avif"];
+
+/** The image cannot be sent to the provider; `message` is the reason, for the user. */
+export class UnsupportedImageError extends Error {
+  readonly fileName: string;
+
+  constructor(fileName: string, message: string) {
+    super(message);
+    this.name = "UnsupportedImageError";
+    this.fileName = fileName;
+  }
+}
+
+/** Short name for a format in messages: "PNG", "HEIC", "SVG"... */
+export function formatLabel(mimeType: string) {
+  return (mimeType === "image/jpeg" ? "jpeg" : extensionForMime(mimeType)).toUpperCase();
+}
+
+/** The format of `file` according to its leading bytes, or null when unknown. */
+export async function sniffFileMime(file: Blob) {
+  return sniffImageMime(new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer()));
+}
+
+function renamed(name: string, mimeType: string) {
+  const dot = name.lastIndexOf(".");
+  return `${dot > 0 ? name.slice(0, dot) : name}.${extensionForMime(mimeType)}`;
+}
+
+// An <img> decodes everything the browser can display, SVG included, which
+// createImageBitmap does not
+async function decodeImage(file: File) {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    // SVGs without intrinsic dimensions have nothing to rasterize
+    if (!img.naturalWidth || !img.naturalHeight) throw new Error("Imagen sin dimensiones");
+    return img;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+async function convertImage(file: File, target: string) {
+  const img = await decodeImage(file);
+  const canvas = new OffscreenCanvas(img.naturalWidth, img.naturalHeight);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D no disponible");
+  if (target === "image/jpeg") {
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.drawImage(img, 0, 0);
+  const blob = await canvas.convertToBlob({ type: target, quality: 0.92 });
+  return new File([blob], renamed(file.name, blob.type), {
+    type: blob.type,
+    lastModified: file.lastModified,
+  });
+}
+
+/**
+ * Returns `file` ready to send to a provider that accepts `accepted`: as is
+ * (retyped when the browser mislabelled it) or converted to PNG or JPEG.
+ * Throws an UnsupportedImageError when it is not an image or cannot be
+ * converted.
+ */
+export async function ensureSupportedImage(
+  file: File,
+  accepted: readonly string[],
+  providerLabel: string
+): Promise<File> {
+  const actual = await sniffFileMime(file);
+  if (!actual) {
+    throw new UnsupportedImageError(
+      file.name,
+      `${file.name} no es una imagen en un formato reconocido` +
+        (file.type ? ` (el navegador indica ${file.type}).` : ".")
+    );
+  }
+  if (accepted.includes(actual)) {
+    return actual === file.type
+      ? file
+      : new File([file], file.name, { type: actual, lastModified: file.lastModified });
+  }
+
+  const target = PHOTO_FORMATS.includes(actual) ? "image/jpeg" : "image/png";
+  if (!accepted.includes(target)) {
+    throw new UnsupportedImageError(
+      file.name,
+      `${file.name} es ${formatLabel(actual)}, que ${providerLabel} no admite.`
+    );
+  }
+  try {
+    return await convertImage(file, target);
+  } catch (e) {
+    console.error("Image conversion error:", e);
+    throw new UnsupportedImageError(
+      file.name,
+      `${file.name} es ${formatLabel(actual)}, que ${providerLabel} no admite, y este navegador ` +
+        `no puede convertirlo. Conviértelo a ${accepted.map(formatLabel).join(", ")} antes de cargarlo.`
+    );
+  }
+}
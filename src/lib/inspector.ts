@@ -0,0 +1,346 @@
+import { bytesToBase64 } from "./image";
+
+// Records the HTTP exchanges of a generation, and of model listings, for the
+// inspector panel: a fetch wrapper that keeps a redacted copy of every request
+// and response, plus the cURL and HAR exports built from those copies. Secrets are replaced and long
+// base64 payloads shortened as soon as they are recorded, so neither ends up
+// in React state, the clipboard or a downloaded file.
+
+/** Stands in for the API key in recorded URLs, headers and bodies. */
+export const REDACTED = "REDACTED";
+
+// Headers that carry credentials even when their value isn't a known secret
+const SENSITIVE_HEADERS = new Set(["authorization", "x-goog-api-key", "api-key", "x-api-key"]);
+
+// Shorter secrets would blank out unrelated text; the headers above and `?key=`
+// are redacted by name anyway
+const MIN_SECRET_LENGTH = 6;
+
+// Long enough that no id, URL or sentence matches, short enough for small thumbnails
+const BASE64_RUN = /[A-Za-z0-9+/]{200,}={0,2}/g;
+const BASE64_KEPT_CHARS = 32;
+
+export interface RecordedFormField {
+  name: string;
+  /** Text fields keep their value; files are described by name, type and size. */
+  value?: string;
+  file?: { name: string; type: string; size: number };
+}
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: [string, string][];
+  /** Text body as sent, redacted and with base64 truncated; null for no or binary bodies. */
+  body: string | null;
+  /** Multipart bodies (OpenAI edits, Stable Diffusion) field by field. */
+  form?: RecordedFormField[];
+  /** Size of a binary body, such as a Files API upload chunk. */
+  binaryBytes?: number;
+}
+
+export interface RecordedResponse {
+  status: number;
+  statusText: string;
+  /** Only what CORS exposes to the page; servers usually expose a few. */
+  headers: [string, string][];
+  /** Undefined while it is still arriving. */
+  body?: string;
+}
+
+export interface HttpExchange {
+  id: number;
+  /** Epoch ms when the request was sent. */
+  startedAt: number;
+  request: RecordedRequest;
+  response?: RecordedResponse;
+  /** Until the response headers arrived. */
+  waitMs?: number;
+  /** Until the response body was read completely. */
+  durationMs?: number;
+  /** Network failure, cancellation or an interrupted body. */
+  error?: string;
+}
+
+/** Shortens every base64-looking run, keeping its start and length. */
+export function truncateBase64(text: string) {
+  return text.replace(
+    BASE64_RUN,
+    (run) => `${run.slice(0, BASE64_KEPT_CHARS)}…[${run.length} caracteres base64]`
+  );
+}
+
+/**
+ * The forms an API key takes on the wire: as is in headers, URL-encoded in
+ * `?key=` and base64-encoded in Basic credentials.
+ */
+export function secretVariants(apiKey: string) {
+  return [
+    ...new Set([
+      apiKey,
+      encodeURIComponent(apiKey),
+      bytesToBase64(new TextEncoder().encode(apiKey)),
+    ]),
+  ]
+    .filter((secret) => secret.length >= MIN_SECRET_LENGTH)
+    .sort((a, b) => b.length - a.length);
+}
+
+function redact(text: string, secrets: string[]) {
+  return secrets.reduce((out, secret) => out.split(secret).join(REDACTED), text);
+}
+
+function redactUrl(url: string, secrets: string[]) {
+  try {
+    const parsed = new URL(url);
+    if (!parsed.searchParams.has("key")) return redact(url, secrets);
+    parsed.searchParams.set("key", REDACTED);
+    return redact(parsed.toString(), secrets);
+  } catch {
+    return redact(url, secrets);
+  }
+}
+
+function redactHeader([name, value]: [string, string], secrets: string[]): [string, string] {
+  const redacted = redact(value, secrets);
+  if (!SENSITIVE_HEADERS.has(name.toLowerCase()) || redacted.includes(REDACTED)) {
+    return [name, redacted];
+  }
+  // Keep the scheme ("Bearer", "Basic") so the header still reads right
+  const scheme = /^(\w+)\s+\S/.exec(redacted)?.[1];
+  return [name, scheme ? `${scheme} ${REDACTED}` : REDACTED];
+}
+
+function headerEntries(headers: HeadersInit | undefined): [string, string][] {
+  if (!headers) return [];
+  if (headers instanceof Headers) return [...headers];
+  if (Array.isArray(headers)) return headers.map(([name, value]) => [name, value]);
+  return Object.entries(headers);
+}
+
+function requestUrl(input: RequestInfo | URL) {
+  if (typeof input === "string") return input;
+  return input instanceof URL ? input.href : input.url;
+}
+
+function recordBody(
+  body: BodyInit | null | undefined,
+  secrets: string[]
+): Pick<RecordedRequest, "body" | "form" | "binaryBytes"> {
+  if (body == null) return { body: null };
+  if (typeof body === "string") return { body: truncateBase64(redact(body, secrets)) };
+  if (body instanceof URLSearchParams) return { body: redact(body.toString(), secrets) };
+  if (body instanceof FormData) {
+    const form = [...body.entries()].map(([name, value]): RecordedFormField =>
+      typeof value === "string"
+        ? { name, value: truncateBase64(redact(value, secrets)) }
+        : { name, file: { name: value.name, type: value.type, size: value.size } }
+    );
+    return { body: null, form };
+  }
+  if (body instanceof Blob) return { body: null, binaryBytes: body.size };
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    return { body: null, binaryBytes: body.byteLength };
+  }
+  return { body: null };
+}
+
+/**
+ * A fetch that behaves like `fetchFn` and reports each exchange to `onRecord`:
+ * once when sent, again when the response headers arrive and a last time when
+ * its body has been read (or failed). Every call passes a new object with the
+ * same id, ready to replace the previous one in state.
+ */
+export function createRecordingFetch(
+  secrets: string[],
+  onRecord: (exchange: HttpExchange) => void,
+  fetchFn: typeof fetch = fetch
+): typeof fetch {
+  let nextId = 1;
+  return async (input, init) => {
+    const started = performance.now();
+    const elapsed = () => Math.round(performance.now() - started);
+    const headers = headerEntries(
+      init?.headers ?? (input instanceof Request ? input.headers : undefined)
+    ).map((header) => redactHeader(header, secrets));
+    let exchange: HttpExchange = {
+      id: nextId++,
+      startedAt: Date.now(),
+      request: {
+        method: (init?.method ?? (input instanceof Request ? input.method : "GET")).toUpperCase(),
+        url: redactUrl(requestUrl(input), secrets),
+        headers,
+        ...recordBody(init?.body, secrets),
+      },
+    };
+    const update = (patch: Partial<HttpExchange>) => {
+      exchange = { ...exchange, ...patch };
+      onRecord(exchange);
+    };
+    onRecord(exchange);
+
+    let res: Response;
+    try {
+      res = await fetchFn(input, init);
+    } catch (e) {
+      update({ durationMs: elapsed(), error: e instanceof Error ? e.message : String(e) });
+      throw e;
+    }
+    const response: RecordedResponse = {
+      status: res.status,
+      statusText: res.statusText,
+      headers: [...res.headers].map((header) => redactHeader(header, secrets)),
+    };
+    update({ waitMs: elapsed(), response });
+    // Read from a copy so the caller consumes (and streams) the original untouched
+    res
+      .clone()
+      .text()
+      .then(
+        (text) =>
+          update({
+            durationMs: elapsed(),
+            response: { ...response, body: truncateBase64(redact(text, secrets)) },
+          }),
+        (e) => update({ durationMs: elapsed(), error: e instanceof Error ? e.message : String(e) })
+      );
+    return res;
+  };
+}
+
+/**
+ * Pretty-prints a recorded body: JSON as is, server-sent events as the list of
+ * their JSON payloads, anything else untouched.
+ */
+export function formatBody(text: string) {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    // not a single JSON document
+  }
+  const events = text
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith("data:"))
+    .map((line) => line.slice(5).trim());
+  if (events.length === 0) return text;
+  try {
+    return JSON.stringify(
+      events.map((event) => JSON.parse(event)),
+      null,
+      2
+    );
+  } catch {
+    return text;
+  }
+}
+
+function shellQuote(value: string) {
+  if (!value.includes(REDACTED)) return `'${value.replace(/'/g, `'\\''`)}'`;
+  // Double quotes so the shell substitutes $API_KEY for the redacted secret
+  const escaped = value
+    .split(REDACTED)
+    .map((part) => part.replace(/[\\"$`]/g, "\\$&"))
+    .join("$API_KEY");
+  return `"${escaped}"`;
+}
+
+/**
+ * The request as a cURL command. The redacted secret becomes `$API_KEY`, in
+ * the form the request carried it (encoded, for Basic credentials); truncated
+ * base64 payloads stay truncated, so image inputs have to be filled back in.
+ */
+export function toCurl({ request }: HttpExchange) {
+  const lines = [`curl ${shellQuote(request.url)}`];
+  const hasBody = request.body !== null || !!request.form || request.binaryBytes !== undefined;
+  // cURL already sends GET without a body and POST with one
+  if (request.method !== (hasBody ? "POST" : "GET")) lines.push(`-X ${request.method}`);
+  for (const [name, value] of request.headers) lines.push(`-H ${shellQuote(`${name}: ${value}`)}`);
+  if (request.body !== null) lines.push(`--data-raw ${shellQuote(request.body)}`);
+  for (const field of request.form ?? []) {
+    lines.push(
+      field.file
+        ? `-F ${shellQuote(`${field.name}=@${field.file.name};type=${field.file.type}`)}`
+        : `-F ${shellQuote(`${field.name}=${field.value ?? ""}`)}`
+    );
+  }
+  if (request.binaryBytes !== undefined) lines.push("--data-binary @body.bin");
+  return lines.join(" \\\n  ");
+}
+
+function harHeaders(headers: [string, string][]) {
+  return headers.map(([name, value]) => ({ name, value }));
+}
+
+function headerValue(headers: [string, string][], name: string) {
+  return headers.find(([n]) => n.toLowerCase() === name)?.[1];
+}
+
+/** The exchanges as a HAR 1.2 log, importable in browser devtools. */
+export function toHar(exchanges: HttpExchange[]) {
+  return {
+    log: {
+      version: "1.2",
+      creator: { name: "Generador de imágenes Gemini", version: "1.0" },
+      entries: exchanges.map(({ startedAt, request, response, waitMs, durationMs, error }) => {
+        const url = new URL(request.url);
+        const requestMime =
+          headerValue(request.headers, "content-type") ??
+          (request.form ? "multipart/form-data" : "application/octet-stream");
+        const wait = waitMs ?? durationMs ?? 0;
+        return {
+          startedDateTime: new Date(startedAt).toISOString(),
+          time: durationMs ?? wait,
+          request: {
+            method: request.method,
+            url: request.url,
+            httpVersion: "HTTP/1.1",
+            cookies: [],
+            headers: harHeaders(request.headers),
+            queryString: [...url.searchParams].map(([name, value]) => ({ name, value })),
+            postData:
+              request.body !== null
+                ? { mimeType: requestMime, text: request.body }
+                : request.form
+                  ? {
+                      mimeType: requestMime,
+                      params: request.form.map((field) =>
+                        field.file
+                          ? {
+                              name: field.name,
+                              fileName: field.file.name,
+                              contentType: field.file.type,
+                            }
+                          : { name: field.name, value: field.value }
+                      ),
+                    }
+                  : undefined,
+            headersSize: -1,
+            bodySize: request.body?.length ?? request.binaryBytes ?? -1,
+          },
+          response: {
+            status: response?.status ?? 0,
+            statusText: response?.statusText ?? "",
+            httpVersion: "HTTP/1.1",
+            cookies: [],
+            headers: harHeaders(response?.headers ?? []),
+            content: {
+              size: response?.body?.length ?? -1,
+              mimeType: headerValue(response?.headers ?? [], "content-type") ?? "",
+              text: response?.body,
+            },
+            redirectURL: "",
+            headersSize: -1,
+            bodySize: -1,
+            _error: error,
+          },
+          cache: {},
+          timings: {
+            send: 0,
+            wait,
+            receive: durationMs !== undefined ? Math.max(0, durationMs - wait) : -1,
+          },
+        };
+      }),
+    },
+  };
+}
@@ -0,0 +1,98 @@
+import { z } from "zod";
+import { extensionForMime } from "./image";
+
+// Optional clean-up of input images before they are encoded for the request:
+// decoding with the EXIF orientation applied, drawing onto a canvas (which
+// drops EXIF, GPS and colour-profile metadata), downscaling to a maximum edge,
+// flattening transparency and re-encoding. Phone photos shrink from several
+// megabytes to a few hundred kilobytes with no visible change for the model.
+
+export const PREPROCESS_FORMATS = ["image/jpeg", "image/webp"] as const;
+
+export const PREPROCESS_FORMAT_LABELS: Record<(typeof PREPROCESS_FORMATS)[number], string> = {
+  "image/jpeg": "JPEG",
+  "image/webp": "WebP",
+};
+
+export const preprocessSettingsSchema = z.object({
+  enabled: z.boolean(),
+  /** Longest side in pixels; 0 keeps the original dimensions. */
+  maxEdge: z.number().int("Debe ser entero").min(0, "Mínimo 0").max(8192, "Máximo 8192"),
+  format: z.enum(PREPROCESS_FORMATS),
+  quality: z.number().min(0.1, "Mínimo 0.1").max(1, "Máximo 1"),
+  /** Paint transparent areas over `background`; JPEG has no alpha, so it always does. */
+  flattenAlpha: z.boolean(),
+  background: z.string().regex(/^#[0-9a-f]{6}$/i, "Color #rrggbb"),
+});
+
+export type PreprocessSettings = z.infer<typeof preprocessSettingsSchema>;
+
+export const DEFAULT_PREPROCESS_SETTINGS: PreprocessSettings = {
+  enabled: false,
+  maxEdge: 2048,
+  format: "image/jpeg",
+  quality: 0.85,
+  flattenAlpha: true,
+  background: "#ffffff",
+};
+
+const PREPROCESS_STORAGE_KEY = "input_preprocess_settings";
+
+/** Saved settings; defaults when missing or corrupt. */
+export function loadPreprocessSettings(): PreprocessSettings {
+  try {
+    const parsed = preprocessSettingsSchema.safeParse(
+      JSON.parse(localStorage.getItem(PREPROCESS_STORAGE_KEY) ?? "null")
+    );
+    return parsed.success ? (parsed.data as PreprocessSettings) : DEFAULT_PREPROCESS_SETTINGS;
+  } catch {
+    return DEFAULT_PREPROCESS_SETTINGS;
+  }
+}
+
+export function savePreprocessSettings(settings: PreprocessSettings) {
+  localStorage.setItem(PREPROCESS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+/** Output dimensions: scaled down so the longest side fits `maxEdge`, never up. */
+export function fitWithin(width: number, height: number, maxEdge: number) {
+  const scale = maxEdge > 0 ? Math.min(1, maxEdge / Math.max(width, height)) : 1;
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+function replaceExtension(name: string, mimeType: string) {
+  const dot = name.lastIndexOf(".");
+  return `${dot > 0 ? name.slice(0, dot) : name}.${extensionForMime(mimeType)}`;
+}
+
+/**
+ * Runs the pipeline on `file` and returns the re-encoded image. Fails when the
+ * browser cannot decode the format.
+ */
+export async function preprocessImage(file: File, settings: PreprocessSettings): Promise<File> {
+  // "from-image" rotates per the EXIF orientation, which the canvas then bakes in
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  try {
+    const { width, height } = fitWithin(bitmap.width, bitmap.height, settings.maxEdge);
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas 2D no disponible");
+    if (settings.flattenAlpha || settings.format === "image/jpeg") {
+      ctx.fillStyle = settings.background;
+      ctx.fillRect(0, 0, width, height);
+    }
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    // Browsers without an encoder for the format fall back to PNG; blob.type tells
+    const blob = await canvas.convertToBlob({ type: settings.format, quality: settings.quality });
+    return new File([blob], replaceExtension(file.name, blob.type), {
+      type: blob.type,
+      lastModified: file.lastModified,
+    });
+  } finally {
+    bitmap.close();
+  }
+}
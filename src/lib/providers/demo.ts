@@ -0,0 +1,278 @@
+import { z } from "zod";
+import { toGenerateResult, withAbort } from "../gemini/client";
+import { GeminiApiError } from "../gemini/errors";
+import { sleep } from "../gemini/retry";
+import { mergeStreamChunk } from "../gemini/stream";
+import { base64ToBlob, bytesToBase64 } from "../image";
+import type { Candidate, GenerateContentResponse, ResponsePart } from "../gemini/types";
+import type { ImageProvider, InputImage } from "./types";
+
+// What the demo provider should go wrong with, to exercise the UI's error paths
+export const DEMO_FAILURES = [
+  "none",
+  "rate-limit",
+  "server-error",
+  "invalid-key",
+  "prompt-blocked",
+  "image-safety",
+  "timeout",
+] as const;
+
+export type DemoFailure = (typeof DEMO_FAILURES)[number];
+
+export const DEMO_FAILURE_LABELS: Record<DemoFailure, string> = {
+  none: "Ninguno",
+  "rate-limit": "429 límite de peticiones",
+  "server-error": "503 modelo saturado",
+  "invalid-key": "400 API key no válida",
+  "prompt-blocked": "Prompt bloqueado (blockReason)",
+  "image-safety": "Último candidato sin imagen (IMAGE_SAFETY)",
+  timeout: "Sin respuesta (agota el tiempo límite)",
+};
+
+export const demoSettingsSchema = z.object({
+  /** Only reported back as modelVersion. */
+  model: z.string().min(1, "El modelo es obligatorio"),
+  latencyMs: z.number().int().min(0, "Mínimo 0 ms").max(60000, "Máximo 60000 ms"),
+  failure: z.enum(DEMO_FAILURES),
+  /** Probability that `failure` happens on a given attempt. */
+  errorRate: z.number().min(0, "Mínimo 0").max(1, "Máximo 1"),
+  candidateCount: z.number().int().min(1, "Mínimo 1 candidato").max(4, "Máximo 4 candidatos"),
+  imagesPerCandidate: z.number().int().min(1, "Mínimo 1 imagen").max(3, "Máximo 3 imágenes"),
+});
+
+export type DemoSettings = z.infer<typeof demoSettingsSchema>;
+
+export const DEFAULT_DEMO_SETTINGS: DemoSettings = {
+  model: "demo-image",
+  latencyMs: 1500,
+  failure: "none",
+  errorRate: 0,
+  candidateCount: 1,
+  imagesPerCandidate: 1,
+};
+
+const IMAGE_SIZE = 1024;
+
+/** FNV-1a; seeds are derived from the request so the same input draws the same image. */
+function hashString(text: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** mulberry32 */
+function seededRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function wrapLines(ctx: OffscreenCanvasRenderingContext2D, text: string, maxWidth: number) {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+/** Draws the prompt over a seeded gradient, with thumbnails of the input images. */
+async function renderDemoImage(
+  prompt: string,
+  seed: number,
+  caption: string,
+  inputs: InputImage[]
+): Promise<string> {
+  const canvas = new OffscreenCanvas(IMAGE_SIZE, IMAGE_SIZE);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D no disponible");
+  const random = seededRandom(seed);
+
+  const hue = Math.floor(random() * 360);
+  const gradient = ctx.createLinearGradient(0, 0, IMAGE_SIZE * random(), IMAGE_SIZE);
+  gradient.addColorStop(0, `hsl(${hue}, 70%, 55%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 90 + random() * 120) % 360}, 70%, 35%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, IMAGE_SIZE, IMAGE_SIZE);
+  for (let i = 0; i < 12; i++) {
+    ctx.fillStyle = `hsla(${(hue + random() * 180) % 360}, 80%, 70%, 0.15)`;
+    ctx.beginPath();
+    ctx.arc(random() * IMAGE_SIZE, random() * IMAGE_SIZE, 40 + random() * 200, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  const thumb = 160;
+  for (const [i, input] of inputs.slice(0, 5).entries()) {
+    try {
+      const bitmap = await createImageBitmap(base64ToBlob(input.data, input.mimeType));
+      const scale = Math.min(thumb / bitmap.width, thumb / bitmap.height);
+      const x = 48 + i * (thumb + 16);
+      ctx.drawImage(bitmap, x, 48, bitmap.width * scale, bitmap.height * scale);
+      bitmap.close();
+    } catch {
+      // undecodable inputs are simply not shown
+    }
+  }
+
+  ctx.fillStyle = "white";
+  ctx.shadowColor = "rgba(0, 0, 0, 0.5)";
+  ctx.shadowBlur = 8;
+  ctx.textBaseline = "top";
+  ctx.font = "bold 56px sans-serif";
+  const lines = wrapLines(ctx, prompt, IMAGE_SIZE - 96).slice(0, 9);
+  lines.forEach((line, i) => ctx.fillText(line, 48, IMAGE_SIZE / 2 - lines.length * 34 + i * 68));
+  ctx.font = "28px monospace";
+  ctx.fillText(caption, 48, IMAGE_SIZE - 76);
+
+  const blob = await canvas.convertToBlob({ type: "image/png" });
+  return bytesToBase64(new Uint8Array(await blob.arrayBuffer()));
+}
+
+function demoApiError(failure: DemoFailure) {
+  const error = (status: number, statusText: string, body: object) =>
+    new GeminiApiError(status, statusText, JSON.stringify({ error: body }));
+  switch (failure) {
+    case "rate-limit":
+      return error(429, "Too Many Requests", {
+        code: 429,
+        status: "RESOURCE_EXHAUSTED",
+        message: "Resource has been exhausted (demo).",
+        details: [{ "@type": "type.googleapis.com/google.rpc.RetryInfo", retryDelay: "3s" }],
+      });
+    case "server-error":
+      return error(503, "Service Unavailable", {
+        code: 503,
+        status: "UNAVAILABLE",
+        message: "The model is overloaded. Please try again later. (demo)",
+      });
+    case "invalid-key":
+      return error(400, "Bad Request", {
+        code: 400,
+        status: "INVALID_ARGUMENT",
+        message: "API key not valid. Please pass a valid API key. (demo)",
+        details: [
+          { "@type": "type.googleapis.com/google.rpc.ErrorInfo", reason: "API_KEY_INVALID" },
+        ],
+      });
+    default:
+      return null;
+  }
+}
+
+/**
+ * Builds the response as the chunks a stream would deliver: per candidate, the
+ * text first and then each image. Joined with mergeStreamChunk they form the
+ * complete response.
+ */
+async function buildChunks(
+  prompt: string,
+  images: InputImage[],
+  settings: DemoSettings,
+  imageSafety: boolean
+): Promise<GenerateContentResponse[]> {
+  const requestKey = `${settings.model}|${prompt}|${images
+    .map((image) => `${image.data.length}:${image.data.slice(0, 64)}`)
+    .join(",")}`;
+  const chunks: GenerateContentResponse[] = [];
+  const chunk = (index: number, parts: ResponsePart[], finishReason?: string) => {
+    const candidate: Candidate = { index, content: { role: "model", parts } };
+    if (finishReason) candidate.finishReason = finishReason;
+    chunks.push({ candidates: [candidate], modelVersion: settings.model });
+  };
+
+  for (let c = 0; c < settings.candidateCount; c++) {
+    if (imageSafety && c === settings.candidateCount - 1) {
+      chunk(c, [{ text: "No puedo generar esa imagen (demo)." }], "IMAGE_SAFETY");
+      continue;
+    }
+    chunk(c, [{ text: `Demo: "${prompt}" (candidato ${c + 1}).` }]);
+    for (let i = 0; i < settings.imagesPerCandidate; i++) {
+      const seed = hashString(`${requestKey}|${c}|${i}`);
+      const caption = `${settings.model} · semilla ${seed.toString(16)} · ${c + 1}.${i + 1}`;
+      const data = await renderDemoImage(prompt, seed, caption, images);
+      const parts: ResponsePart[] = [{ inlineData: { mimeType: "image/png", data } }];
+      if (i + 1 < settings.imagesPerCandidate) parts.push({ text: `Variación ${i + 2}:` });
+      chunk(c, parts, i + 1 === settings.imagesPerCandidate ? "STOP" : undefined);
+    }
+  }
+
+  const imageCount = chunks.reduce(
+    (n, ch) => n + (ch.candidates?.[0].content?.parts ?? []).filter((p) => p.inlineData).length,
+    0
+  );
+  const promptTokenCount = Math.ceil(prompt.length / 4) + images.length * 258;
+  const candidatesTokenCount = imageCount * 1290;
+  chunks[chunks.length - 1].usageMetadata = {
+    promptTokenCount,
+    candidatesTokenCount,
+    totalTokenCount: promptTokenCount + candidatesTokenCount,
+  };
+  return chunks;
+}
+
+/**
+ * Offline provider for demos and development: never touches the network and
+ * answers in the Gemini response shape with deterministic canvas-drawn images.
+ */
+export const demoProvider: ImageProvider<DemoSettings> = {
+  id: "demo",
+  label: "Demo (sin conexión)",
+  capabilities: {
+    textToImage: true,
+    imageEdit: true,
+    multipleInputs: true,
+    streaming: true,
+    // Same as Gemini, which it stands in for
+    inputFormats: ["image/png", "image/jpeg", "image/webp", "image/heic", "image/heif"],
+  },
+  generate({ prompt, images, onUpdate, signal, timeoutMs }, settings) {
+    return withAbort({ signal, timeoutMs }, async (signal) => {
+      const failure = settings.failure !== "none" && Math.random() < settings.errorRate;
+      const active: DemoFailure = failure ? settings.failure : "none";
+
+      if (active === "timeout") {
+        // Hangs until the caller's timeout or cancel fires
+        await sleep(2 ** 31 - 1, signal);
+      }
+      const apiError = demoApiError(active);
+      if (apiError) {
+        await sleep(settings.latencyMs, signal);
+        throw apiError;
+      }
+      if (active === "prompt-blocked") {
+        await sleep(settings.latencyMs, signal);
+        return toGenerateResult({
+          promptFeedback: { blockReason: "SAFETY" },
+          modelVersion: settings.model,
+        });
+      }
+
+      const chunks = await buildChunks(prompt, images, settings, active === "image-safety");
+      // Latency is spread over the chunks so streaming shows them arriving
+      const perChunk = onUpdate ? settings.latencyMs / chunks.length : 0;
+      if (!onUpdate) await sleep(settings.latencyMs, signal);
+      let acc: GenerateContentResponse = {};
+      for (const chunk of chunks) {
+        if (onUpdate) await sleep(perChunk, signal);
+        acc = mergeStreamChunk(acc, chunk);
+        onUpdate?.(toGenerateResult(acc));
+      }
+      return toGenerateResult(acc);
+    });
+  },
+};
@@ -0,0 +1,42 @@
+import { buildImageRequest, generateContent } from "../gemini/client";
+import { streamGenerateContent } from "../gemini/stream";
+import type { EndpointProfile } from "../gemini/endpoints";
+import type { Content, GenerationConfig, SafetySetting } from "../gemini/types";
+import type { ImageProvider } from "./types";
+
+export interface GeminiProviderSettings {
+  endpoint: EndpointProfile;
+  generationConfig?: GenerationConfig;
+  safetySettings?: SafetySetting[];
+  /** Advanced mode: authored contents that replace the prompt and input images. */
+  contents?: Content[];
+  systemInstruction?: Content;
+}
+
+export const geminiProvider: ImageProvider<GeminiProviderSettings> = {
+  id: "gemini",
+  label: "Gemini",
+  capabilities: {
+    textToImage: true,
+    imageEdit: true,
+    multipleInputs: true,
+    streaming: true,
+    inputFormats: ["image/png", "image/jpeg", "image/webp", "image/heic", "image/heif"],
+  },
+  generate(
+    { prompt, images, model, apiKey, onUpdate, ...abort },
+    { endpoint, generationConfig, safetySettings, contents, systemInstruction }
+  ) {
+    const request = buildImageRequest({
+      prompt,
+      images,
+      contents,
+      systemInstruction,
+      generationConfig,
+      safetySettings,
+    });
+    return onUpdate
+      ? streamGenerateContent(request, { apiKey, model, endpoint, onUpdate, ...abort })
+      : generateContent(request, { apiKey, model, endpoint, ...abort });
+  },
+};
@@ -0,0 +1,70 @@
+import { toGenerateResult } from "../gemini/client";
+import { fetchOrNetworkError, GeminiResponseError, HttpStatusError } from "../gemini/errors";
+import { base64ToBytes, sniffImageMime } from "../image";
+import type { GenerateContentResponse, GenerateResult, ResponsePart } from "../gemini/types";
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Sends a request to a non-Gemini backend and returns its JSON body. Non-OK
+ * responses become HttpStatusError with the message `errorMessage` finds in
+ * the body, so retries and error toasts work as they do for Gemini.
+ */
+export async function requestJson(
+  url: string,
+  init: RequestInit,
+  providerLabel: string,
+  errorMessage: (body: unknown) => string | undefined,
+  fetchFn: typeof fetch = fetch
+): Promise<unknown> {
+  const res = await fetchOrNetworkError(fetchFn, url, init);
+  const text = await res.text();
+  const json = parseJson(text);
+  if (!res.ok) {
+    throw new HttpStatusError(
+      errorMessage(json) ?? `${providerLabel} API error: ${res.status} ${res.statusText}`,
+      res.status,
+      res.statusText,
+      text,
+      res.headers
+    );
+  }
+  if (json === undefined) {
+    throw new GeminiResponseError(`La respuesta de ${providerLabel} no es JSON válido.`, text);
+  }
+  return json;
+}
+
+export interface ProviderImage {
+  /** Base64 image bytes. */
+  data: string;
+  /** Shown alongside the image (revised prompt, seed...). */
+  text?: string;
+}
+
+/**
+ * Wraps plain images as a Gemini-shaped response, one candidate per image with
+ * its text first, so they group and render like any Gemini result.
+ */
+export function imagesToResult(
+  images: ProviderImage[],
+  extra: Omit<GenerateContentResponse, "candidates"> = {}
+): GenerateResult {
+  return toGenerateResult({
+    ...extra,
+    candidates: images.map(({ data, text }, index) => {
+      const parts: ResponsePart[] = [];
+      if (text) parts.push({ text });
+      parts.push({
+        inlineData: { mimeType: sniffImageMime(base64ToBytes(data)) ?? "image/png", data },
+      });
+      return { index, finishReason: "STOP", content: { role: "model", parts } };
+    }),
+  });
+}
@@ -0,0 +1,150 @@
+import { z } from "zod";
+import { withAbort } from "../gemini/client";
+import { GeminiResponseError } from "../gemini/errors";
+import { base64ToBlob, extensionForMime } from "../image";
+import { imagesToResult, requestJson } from "./http";
+import type { ImageProvider } from "./types";
+
+export const OPENAI_IMAGE_SIZES = [
+  "auto",
+  "1024x1024",
+  "1536x1024",
+  "1024x1536",
+  "1792x1024",
+  "1024x1792",
+  "512x512",
+  "256x256",
+] as const;
+
+// gpt-image-* takes low/medium/high, dall-e-3 takes standard/hd
+export const OPENAI_IMAGE_QUALITIES = ["auto", "low", "medium", "high", "standard", "hd"] as const;
+
+export const openAISettingsSchema = z.object({
+  /** Server root without /v1, e.g. https://api.openai.com or a compatible gateway. */
+  baseUrl: z.string().url("URL no válida"),
+  model: z.string().min(1, "El modelo es obligatorio"),
+  size: z.enum(OPENAI_IMAGE_SIZES),
+  quality: z.enum(OPENAI_IMAGE_QUALITIES),
+  count: z.number().int().min(1, "Mínimo 1 imagen").max(10, "Máximo 10 imágenes"),
+});
+
+export type OpenAISettings = z.infer<typeof openAISettingsSchema>;
+
+export const DEFAULT_OPENAI_SETTINGS: OpenAISettings = {
+  baseUrl: "https://api.openai.com",
+  model: "gpt-image-1",
+  size: "auto",
+  quality: "auto",
+  count: 1,
+};
+
+const imagesResponseSchema = z
+  .object({
+    data: z.array(
+      z
+        .object({
+          b64_json: z.string().optional(),
+          url: z.string().optional(),
+          revised_prompt: z.string().optional(),
+        })
+        .passthrough()
+    ),
+    usage: z
+      .object({
+        input_tokens: z.number().optional(),
+        output_tokens: z.number().optional(),
+        total_tokens: z.number().optional(),
+      })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
+function openAIErrorMessage(body: unknown) {
+  const parsed = z.object({ error: z.object({ message: z.string() }) }).safeParse(body);
+  return parsed.success ? parsed.data.error.message : undefined;
+}
+
+function imagesUrl(baseUrl: string, operation: "generations" | "edits") {
+  return `${baseUrl.replace(/\/+$/, "")}/v1/images/${operation}`;
+}
+
+/** OpenAI Images API and servers that mimic it (/v1/images/generations and /edits). */
+export const openAIProvider: ImageProvider<OpenAISettings> = {
+  id: "openai",
+  label: "OpenAI (compatible)",
+  capabilities: {
+    textToImage: true,
+    imageEdit: true,
+    multipleInputs: true,
+    streaming: false,
+    inputFormats: ["image/png", "image/jpeg", "image/webp"],
+  },
+  generate(
+    { prompt, images, model, apiKey, fetch: fetchFn, ...abort },
+    { baseUrl, size, quality, count }
+  ) {
+    const options: Record<string, string | number> = { model, prompt, n: count };
+    if (size !== "auto") options.size = size;
+    if (quality !== "auto") options.quality = quality;
+    // gpt-image-* always answers in base64 and rejects response_format
+    if (!model.startsWith("gpt-image")) options.response_format = "b64_json";
+    const headers: Record<string, string> = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+    let url: string;
+    let body: string | FormData;
+    if (images.length === 0) {
+      url = imagesUrl(baseUrl, "generations");
+      body = JSON.stringify(options);
+      headers["Content-Type"] = "application/json";
+    } else {
+      // Edits are multipart; several images go as image[] (gpt-image-* only)
+      url = imagesUrl(baseUrl, "edits");
+      const form = new FormData();
+      for (const [key, value] of Object.entries(options)) form.append(key, String(value));
+      const field = images.length > 1 ? "image[]" : "image";
+      images.forEach((image, i) => {
+        const blob = base64ToBlob(image.data, image.mimeType);
+        form.append(field, blob, `input-${i + 1}.${extensionForMime(blob.type)}`);
+      });
+      body = form;
+    }
+
+    return withAbort(abort, async (signal) => {
+      const json = await requestJson(
+        url,
+        { method: "POST", headers, body, signal },
+        "OpenAI",
+        openAIErrorMessage,
+        fetchFn
+      );
+      const parsed = imagesResponseSchema.safeParse(json);
+      if (!parsed.success) {
+        throw new GeminiResponseError(
+          `Respuesta de OpenAI con formato inesperado: ${parsed.error.message}`,
+          JSON.stringify(json)
+        );
+      }
+      const { data, usage } = parsed.data;
+      if (data.length > 0 && data.every((item) => !item.b64_json)) {
+        throw new GeminiResponseError(
+          "El servidor devolvió URLs en lugar de imágenes en base64.",
+          JSON.stringify(json)
+        );
+      }
+      return imagesToResult(
+        data.flatMap((item) =>
+          item.b64_json ? [{ data: item.b64_json, text: item.revised_prompt }] : []
+        ),
+        {
+          modelVersion: model,
+          usageMetadata: usage && {
+            promptTokenCount: usage.input_tokens,
+            candidatesTokenCount: usage.output_tokens,
+            totalTokenCount: usage.total_tokens,
+          },
+        }
+      );
+    });
+  },
+};
@@ -0,0 +1,91 @@
+import { DEFAULT_DEMO_SETTINGS, demoProvider, demoSettingsSchema, type DemoSettings } from "./demo";
+import { geminiProvider, type GeminiProviderSettings } from "./gemini";
+import {
+  DEFAULT_OPENAI_SETTINGS,
+  openAIProvider,
+  openAISettingsSchema,
+  type OpenAISettings,
+} from "./openai";
+import {
+  DEFAULT_STABLE_DIFFUSION_SETTINGS,
+  stableDiffusionProvider,
+  stableDiffusionSettingsSchema,
+  type StableDiffusionSettings,
+} from "./stable-diffusion";
+import type { GenerateResult } from "../gemini/types";
+import type { ImageProvider, ProviderId, ProviderRequest } from "./types";
+
+export interface ProviderSettingsMap {
+  gemini: GeminiProviderSettings;
+  openai: OpenAISettings;
+  "stable-diffusion": StableDiffusionSettings;
+  demo: DemoSettings;
+}
+
+export const IMAGE_PROVIDERS: { [Id in ProviderId]: ImageProvider<ProviderSettingsMap[Id]> } = {
+  gemini: geminiProvider,
+  openai: openAIProvider,
+  "stable-diffusion": stableDiffusionProvider,
+  demo: demoProvider,
+};
+
+export const PROVIDER_IDS = Object.keys(IMAGE_PROVIDERS) as ProviderId[];
+
+export const DEFAULT_PROVIDER_ID: ProviderId = "gemini";
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return typeof value === "string" && value in IMAGE_PROVIDERS;
+}
+
+export function generateWithProvider<Id extends ProviderId>(
+  id: Id,
+  request: ProviderRequest,
+  settings: ProviderSettingsMap[Id]
+): Promise<GenerateResult> {
+  const provider = IMAGE_PROVIDERS[id] as ImageProvider<ProviderSettingsMap[Id]>;
+  return provider.generate(request, settings);
+}
+
+/** Settings edited in the UI for providers other than Gemini, which has its own panels. */
+export interface ExternalProviderSettings {
+  openai: OpenAISettings;
+  "stable-diffusion": StableDiffusionSettings;
+  demo: DemoSettings;
+}
+
+export const DEFAULT_EXTERNAL_PROVIDER_SETTINGS: ExternalProviderSettings = {
+  openai: DEFAULT_OPENAI_SETTINGS,
+  "stable-diffusion": DEFAULT_STABLE_DIFFUSION_SETTINGS,
+  demo: DEFAULT_DEMO_SETTINGS,
+};
+
+export const EXTERNAL_PROVIDER_SCHEMAS = {
+  openai: openAISettingsSchema,
+  "stable-diffusion": stableDiffusionSettingsSchema,
+  demo: demoSettingsSchema,
+};
+
+const SETTINGS_STORAGE_KEY = "image_provider_settings";
+
+/** Saved settings per provider; defaults for anything missing or corrupt. */
+export function loadExternalProviderSettings(): ExternalProviderSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) ?? "{}");
+    const openai = openAISettingsSchema.safeParse(saved?.openai);
+    const sd = stableDiffusionSettingsSchema.safeParse(saved?.["stable-diffusion"]);
+    const demo = demoSettingsSchema.safeParse(saved?.demo);
+    return {
+      openai: openai.success ? (openai.data as OpenAISettings) : DEFAULT_OPENAI_SETTINGS,
+      "stable-diffusion": sd.success
+        ? (sd.data as StableDiffusionSettings)
+        : DEFAULT_STABLE_DIFFUSION_SETTINGS,
+      demo: demo.success ? (demo.data as DemoSettings) : DEFAULT_DEMO_SETTINGS,
+    };
+  } catch {
+    return DEFAULT_EXTERNAL_PROVIDER_SETTINGS;
+  }
+}
+
+export function saveExternalProviderSettings(settings: ExternalProviderSettings) {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,138 @@
+import { z } from "zod";
+import { withAbort } from "../gemini/client";
+import { basicAuthorization } from "../gemini/endpoints";
+import { GeminiResponseError } from "../gemini/errors";
+import { imagesToResult, requestJson } from "./http";
+import type { ImageProvider } from "./types";
+
+export const stableDiffusionSettingsSchema = z.object({
+  /** Server root, e.g. http://127.0.0.1:7860 for a local AUTOMATIC1111/Forge. */
+  baseUrl: z.string().url("URL no válida"),
+  /** Checkpoint to load; empty keeps whatever the server has loaded. */
+  model: z.string(),
+  negativePrompt: z.string(),
+  width: z.number().int().min(64, "Mínimo 64 px").max(4096, "Máximo 4096 px"),
+  height: z.number().int().min(64, "Mínimo 64 px").max(4096, "Máximo 4096 px"),
+  steps: z.number().int().min(1, "Mínimo 1 paso").max(150, "Máximo 150 pasos"),
+  cfgScale: z.number().min(1, "Mínimo 1").max(30, "Máximo 30"),
+  /** img2img only: how far to move away from the input image. */
+  denoisingStrength: z.number().min(0, "Mínimo 0").max(1, "Máximo 1"),
+  /** -1 picks a random seed. */
+  seed: z.number().int(),
+  count: z.number().int().min(1, "Mínimo 1 imagen").max(8, "Máximo 8 imágenes"),
+});
+
+export type StableDiffusionSettings = z.infer<typeof stableDiffusionSettingsSchema>;
+
+export const DEFAULT_STABLE_DIFFUSION_SETTINGS: StableDiffusionSettings = {
+  baseUrl: "http://127.0.0.1:7860",
+  model: "",
+  negativePrompt: "",
+  width: 1024,
+  height: 1024,
+  steps: 30,
+  cfgScale: 7,
+  denoisingStrength: 0.75,
+  seed: -1,
+  count: 1,
+};
+
+const sdResponseSchema = z
+  .object({
+    images: z.array(z.string()),
+    // JSON-encoded generation info (seeds, checkpoint name...)
+    info: z.string().optional(),
+  })
+  .passthrough();
+
+const sdInfoSchema = z
+  .object({
+    all_seeds: z.array(z.number()).optional(),
+    sd_model_name: z.string().nullable().optional(),
+  })
+  .passthrough();
+
+function sdErrorMessage(body: unknown) {
+  const parsed = z
+    .object({ detail: z.unknown().optional(), error: z.string().optional() })
+    .safeParse(body);
+  if (!parsed.success) return undefined;
+  const { detail, error } = parsed.data;
+  return typeof detail === "string" ? detail : error;
+}
+
+function parseInfo(info: string | undefined) {
+  try {
+    const parsed = sdInfoSchema.safeParse(JSON.parse(info ?? "{}"));
+    return parsed.success ? parsed.data : {};
+  } catch {
+    return {};
+  }
+}
+
+/** "user:password" goes as Basic auth (--api-auth); anything else as a bearer token. */
+function authHeaders(apiKey: string): Record<string, string> {
+  if (!apiKey) return {};
+  return { Authorization: apiKey.includes(":") ? basicAuthorization(apiKey) : `Bearer ${apiKey}` };
+}
+
+/** Self-hosted AUTOMATIC1111-style API (/sdapi/v1/txt2img and /img2img). */
+export const stableDiffusionProvider: ImageProvider<StableDiffusionSettings> = {
+  id: "stable-diffusion",
+  label: "Stable Diffusion (local)",
+  capabilities: {
+    textToImage: true,
+    imageEdit: true,
+    multipleInputs: false,
+    streaming: false,
+    inputFormats: ["image/png", "image/jpeg", "image/webp"],
+  },
+  generate({ prompt, images, model, apiKey, fetch: fetchFn, ...abort }, settings) {
+    const body: Record<string, unknown> = {
+      prompt,
+      negative_prompt: settings.negativePrompt,
+      width: settings.width,
+      height: settings.height,
+      steps: settings.steps,
+      cfg_scale: settings.cfgScale,
+      seed: settings.seed,
+      batch_size: settings.count,
+    };
+    if (model) body.override_settings = { sd_model_checkpoint: model };
+    const operation = images.length > 0 ? "img2img" : "txt2img";
+    if (images.length > 0) {
+      body.init_images = [images[0].data];
+      body.denoising_strength = settings.denoisingStrength;
+    }
+
+    return withAbort(abort, async (signal) => {
+      const json = await requestJson(
+        `${settings.baseUrl.replace(/\/+$/, "")}/sdapi/v1/${operation}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...authHeaders(apiKey) },
+          body: JSON.stringify(body),
+          signal,
+        },
+        "Stable Diffusion",
+        sdErrorMessage,
+        fetchFn
+      );
+      const parsed = sdResponseSchema.safeParse(json);
+      if (!parsed.success) {
+        throw new GeminiResponseError(
+          `Respuesta de Stable Diffusion con formato inesperado: ${parsed.error.message}`,
+          JSON.stringify(json)
+        );
+      }
+      const info = parseInfo(parsed.data.info);
+      return imagesToResult(
+        parsed.data.images.map((data, i) => ({
+          data,
+          text: info.all_seeds?.[i] !== undefined ? `Semilla: ${info.all_seeds[i]}` : undefined,
+        })),
+        { modelVersion: info.sd_model_name ?? (model || undefined) }
+      );
+    });
+  },
+};
@@ -0,0 +1,53 @@
+import type { GenerateResult } from "../gemini/types";
+
+export type ProviderId = "gemini" | "openai" | "stable-diffusion" | "demo";
+
+/** What a provider can do; the UI hides controls for anything missing. */
+export interface ProviderCapabilities {
+  /** Generates from a prompt alone. */
+  textToImage: boolean;
+  /** Accepts input images to edit or use as reference. */
+  imageEdit: boolean;
+  /** Accepts more than one input image per request. */
+  multipleInputs: boolean;
+  /** Reports partial results while the response is still arriving. */
+  streaming: boolean;
+  /** MIME types accepted for input images; others are converted or rejected before sending. */
+  inputFormats: readonly string[];
+}
+
+export interface InputImage {
+  mimeType: string;
+  /** Base64 without the data: prefix. */
+  data: string;
+  /** Files API URI; Gemini references it instead of inlining `data`. */
+  fileUri?: string;
+  /** What the image is for ("subject", "style"...); described to the model in the prompt. */
+  role?: string;
+  /** Where the image was imported from; recorded in the metadata, never sent. */
+  sourceUrl?: string;
+}
+
+export interface ProviderRequest {
+  prompt: string;
+  images: InputImage[];
+  model: string;
+  apiKey: string;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  /** Streams partial results when set and the provider supports streaming. */
+  onUpdate?: (partial: GenerateResult) => void;
+  /** Used instead of the global fetch, e.g. to record exchanges for the inspector. */
+  fetch?: typeof fetch;
+}
+
+/**
+ * An image generation backend. Every provider answers in the Gemini result
+ * shape so results, errors and retries are handled the same way for all.
+ */
+export interface ImageProvider<Settings> {
+  id: ProviderId;
+  label: string;
+  capabilities: ProviderCapabilities;
+  generate(request: ProviderRequest, settings: Settings): Promise<GenerateResult>;
+}
@@ -8,10 +8,19 @@ export const showError = (message: string) => {
   toast.error(message);
 };
 
+export const showInfo = (message: string) => {
+  toast.info(message);
+};
+
 export const showLoading = (message: string) => {
   return toast.loading(message);
 };
 
+// Replaces the message of an existing loading toast (e.g. retry countdowns).
+export const updateLoading = (toastId: string | number, message: string) => {
+  toast.loading(message, { id: toastId });
+};
+
 // Accept string or number (and optional) because sonner may return either type for a toast id.
 // Passing through to toast.dismiss with the same value.
 export const dismissToast = (toastId?: string | number) => {